@@ -0,0 +1,51 @@
+// Run with: npx ts-node compilePath.bench.ts
+import { performance } from 'perf_hooks';
+import superToPath from './toPath';
+import get, { getByKeys } from './get';
+import pick, { pickByKeys } from './pick';
+import compilePath, { compilePick } from './compilePath';
+
+const ROWS = 500_000;
+
+const rows = Array.from({ length: ROWS }, (_, i) => ({
+  id: i,
+  trade: { ccy: i % 2 ? 'EUR' : 'USD', leg: { rate: i / 1000 } },
+  fees: [{ amount: i % 7 }, { amount: i % 11 }],
+}));
+
+function measure(label: string, fn: (row: any) => any): number {
+  // Warm up so the JIT has settled before timing
+  for (let i = 0; i < 10_000; i++) fn(rows[i]);
+  const start = performance.now();
+  for (let i = 0; i < rows.length; i++) fn(rows[i]);
+  const ms = performance.now() - start;
+  console.log(`${label.padEnd(45)} ${ms.toFixed(1).padStart(8)} ms`);
+  return ms;
+}
+
+function compare(title: string, cases: Array<[string, (row: any) => any]>) {
+  console.log(`\n${title} (${ROWS} rows)`);
+  const [baseline, ...rest] = cases.map(([label, fn]) => measure(label, fn));
+  rest.forEach((ms, i) => console.log(`  ${cases[i + 1][0]}: ${(baseline / ms).toFixed(1)}x faster`));
+}
+
+const path = 'trade.leg.rate';
+compare(`get '${path}'`, [
+  ['parse on every call (previous get)', (row) => getByKeys(row, superToPath(path))],
+  ['get with LRU cache', (row) => get(row, path)],
+  ['compilePath', ((accessor) => (row: any) => accessor(row))(compilePath(path))],
+]);
+
+const wildcardPath = 'fees.[].amount';
+compare(`get '${wildcardPath}'`, [
+  ['parse on every call (previous get)', (row) => getByKeys(row, superToPath(wildcardPath))],
+  ['get with LRU cache', (row) => get(row, wildcardPath)],
+  ['compilePath', ((accessor) => (row: any) => accessor(row))(compilePath(wildcardPath))],
+]);
+
+const paths: ['id', 'trade.ccy', 'fees.[].amount'] = ['id', 'trade.ccy', 'fees.[].amount'];
+compare(`pick ${JSON.stringify(paths)}`, [
+  ['parse on every call (previous pick)', (row) => pickByKeys(row, paths.map((p) => superToPath(p)))],
+  ['pick with LRU cache', (row: (typeof rows)[number]) => pick(row, paths)],
+  ['compilePick', ((project) => (row: any) => project(row))(compilePick(paths))],
+]);
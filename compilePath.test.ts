@@ -0,0 +1,68 @@
+import compilePath, { compilePick } from './compilePath';
+import LRUCache from './lruCache';
+import get from './get';
+import pick from './pick';
+
+const rows = [
+  { id: 1, trade: { leg: { rate: 1.1 }, ccy: 'EUR' }, fees: [{ amount: 1 }, { amount: 2 }] },
+  { id: 2, trade: { leg: { rate: null }, ccy: 'USD' }, fees: [] },
+  { id: 3, trade: null, fees: [{ amount: 5 }] },
+];
+
+describe('compilePath', () => {
+  test.each([
+    'id',
+    'trade.ccy',
+    'trade.leg.rate',
+    'trade.leg.rate.value.deep',
+    'fees[0].amount',
+    'fees.[].amount',
+    'fees.[?amount>1].amount',
+    '**.amount',
+  ])('should match get for %s', (path) => {
+    const accessor = compilePath(path);
+    rows.forEach((row) => {
+      expect(accessor(row)).toEqual(get(row, path as any));
+      expect(accessor(row, 'default')).toEqual(get(row, path as any, 'default'));
+    });
+  });
+
+  test('should handle empty path and null input', () => {
+    expect(compilePath('')(rows[0])).toBe(rows[0]);
+    expect(compilePath('trade.ccy')(null, 'none')).toBe('none');
+  });
+
+  test('should accept array paths', () => {
+    expect(compilePath(['trade', 'ccy'])(rows[0])).toBe('EUR');
+  });
+});
+
+describe('compilePick', () => {
+  test('should match pick', () => {
+    const paths = ['id', 'trade.ccy', 'fees.[].amount'];
+    const project = compilePick(paths);
+    rows.forEach((row) => {
+      expect(project(row)).toEqual(pick(row, paths as any));
+    });
+  });
+
+  test('should accept a single path', () => {
+    expect(compilePick('trade.ccy')(rows[1])).toEqual({ ccy: 'USD' });
+  });
+});
+
+describe('LRUCache', () => {
+  test('should evict the least recently used entry', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1).set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+
+  test('should reject a non-positive size', () => {
+    expect(() => new LRUCache(0)).toThrow('LRUCache size must be positive');
+  });
+});
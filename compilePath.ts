@@ -0,0 +1,73 @@
+import superToPath from './toPath.js';
+import { getByKeys } from './get.js';
+import { pickByKeys } from './pick.js';
+import type { GetResult, PickResult } from './pathTypes.js';
+import { hasWildcard } from './wildcard.js';
+
+type CompiledGet<P extends string> = <T extends object, D = undefined>(
+  object: T | null | undefined,
+  defaultValue?: D
+) => GetResult<T, P, D>;
+
+type CompiledPick<P extends string[]> = <T extends object>(object: T | null | undefined) => PickResult<T, P>;
+
+/**
+ * Parses a path once and returns a reusable accessor, for reading the same path from many objects
+ * (e.g. every row of a sheet). compilePath(path)(object, defaultValue) is the same as get(object, path, defaultValue).
+ * @param path The path string (e.g., 'a.[].b.c') or array of keys.
+ * @returns Accessor function taking the object and an optional default value.
+ */
+function compilePath<P extends string>(path: P | string[]): CompiledGet<P> {
+  const keys = superToPath(path);
+
+  if (hasWildcard(keys)) {
+    return ((object: any, defaultValue?: any) => getByKeys(object, keys, defaultValue)) as CompiledGet<P>;
+  }
+
+  // Specialized accessors for the common short paths, a plain loop for the rest
+  const [first, second, third] = keys;
+  switch (keys.length) {
+    case 0:
+      return ((object: any, defaultValue?: any) => (object !== undefined ? object : defaultValue)) as CompiledGet<P>;
+    case 1:
+      return ((object: any, defaultValue?: any) => {
+        const value = object != null ? object[first] : undefined;
+        return value != null ? value : defaultValue;
+      }) as CompiledGet<P>;
+    case 2:
+      return ((object: any, defaultValue?: any) => {
+        const value = object != null && object[first] != null ? object[first][second] : undefined;
+        return value != null ? value : defaultValue;
+      }) as CompiledGet<P>;
+    case 3:
+      return ((object: any, defaultValue?: any) => {
+        const parent = object != null && object[first] != null ? object[first][second] : undefined;
+        const value = parent != null ? parent[third] : undefined;
+        return value != null ? value : defaultValue;
+      }) as CompiledGet<P>;
+    default:
+      return ((object: any, defaultValue?: any) => {
+        let current = object;
+        for (let i = 0; i < keys.length; i++) {
+          current = current != null ? current[keys[i]] : undefined;
+          if (current == null) return defaultValue;
+        }
+        return current;
+      }) as CompiledGet<P>;
+  }
+}
+
+/**
+ * Parses paths once and returns a reusable projection, compilePick(paths)(object) is the same as pick(object, paths).
+ * @param paths A path string or an array of path strings.
+ * @returns Projection function taking the object.
+ */
+function compilePick<P extends string[]>(paths: [...P] | string): CompiledPick<P> {
+  const props = Array.isArray(paths) ? paths : [paths];
+  const keysList = props.map((path) => superToPath(path));
+  return ((object: any) => pickByKeys(object, keysList)) as CompiledPick<P>;
+}
+
+export type { CompiledGet, CompiledPick };
+export { compilePick };
+export default compilePath;
@@ -0,0 +1,112 @@
+import * as ExcelJS from 'exceljs';
+import copyWorksheet from './copyWorksheet';
+
+async function sourceWorkbook(): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet('Rates').getCell('A1').value = 2;
+  const data = workbook.addWorksheet('Data', { views: [{ state: 'frozen', ySplit: 1 }] });
+  data.getColumn(1).width = 25;
+  data.getColumn(3).hidden = true;
+  data.getRow(1).height = 30;
+  data.getCell('A1').value = 'Title';
+  data.getCell('A1').font = { bold: true, size: 14 };
+  data.getCell('B1').border = { right: { style: 'thick' } };
+  data.mergeCellsWithoutStyle('A1:B1');
+  data.getCell('A2').value = 1.5;
+  data.getCell('A2').numFmt = '0.00%';
+  data.getCell('A3').value = 3;
+  data.getCell('B2').value = { formula: 'A2*Rates!$A$1', result: 3, shareType: 'shared', ref: 'B2:B3' } as any;
+  data.getCell('B3').value = { sharedFormula: 'B2', result: 6 } as any;
+  data.getCell('C2').value = { text: 'Rates', hyperlink: '#Rates!A1' };
+  data.getCell('C3').value = { richText: [{ text: 'rich', font: { italic: true } }] };
+  data.getCell('C3').note = 'A note';
+  data.getCell('D2').dataValidation = { type: 'list', allowBlank: true, formulae: ['Rates!$A$1:$A$3'] };
+  data.addConditionalFormatting({
+    ref: 'A2:A3',
+    rules: [{ type: 'expression', priority: 1, formulae: ['A2>Rates!$A$1'], style: { font: { bold: true } } }],
+  });
+  data.autoFilter = 'A1:D1';
+  data.getColumn(6).width = 40;
+  data.pageSetup.printArea = 'A1:D3';
+  data.pageSetup.printTitlesRow = '1:1';
+  workbook.definedNames.add('Data!$A$2:$A$3', 'Amounts');
+  workbook.definedNames.add('Rates!$A$1', 'Rate');
+  // Through a file, like the workbooks copied in practice
+  const loaded = new ExcelJS.Workbook();
+  await loaded.xlsx.load((await workbook.xlsx.writeBuffer()) as any);
+  return loaded;
+}
+
+describe('copyWorksheet', () => {
+  test('should copy values, formulas, styles, layout, links, notes, validations and rules', async () => {
+    const target = new ExcelJS.Workbook();
+    const copy = await copyWorksheet(await sourceWorkbook(), 'Data', target, 'Copy');
+
+    expect(target.worksheets.map(({ name }) => name)).toEqual(['Copy']);
+    expect(copy.views).toEqual([expect.objectContaining({ state: 'frozen', ySplit: 1 })]);
+    expect(copy.getColumn(1).width).toBe(25);
+    expect(copy.getColumn(3).hidden).toBe(true);
+    expect(copy.getRow(1).height).toBe(30);
+    expect(copy.getCell('A1').value).toBe('Title');
+    expect(copy.getCell('A1').font).toMatchObject({ bold: true, size: 14 });
+    expect(copy.getCell('B1').isMerged).toBe(true);
+    expect(copy.getCell('B1').border).toEqual({ right: { style: 'thick' } });
+    expect(copy.getCell('A2').numFmt).toBe('0.00%');
+    expect(copy.getCell('B2').value).toEqual({
+      formula: 'A2*Rates!$A$1',
+      result: 3,
+      shareType: 'shared',
+      ref: 'B2:B3',
+    });
+    expect(copy.getCell('B3').value).toEqual({ sharedFormula: 'B2', result: 6 });
+    expect(copy.getCell('B3').formula).toBe('A3*Rates!$A$1');
+    expect(copy.getCell('C2').hyperlink).toBe('#Rates!A1');
+    expect(copy.getCell('C3').value).toEqual({ richText: [{ text: 'rich', font: { italic: true } }] });
+    expect(copy.getCell('C3').note).toBe('A note');
+    expect(copy.getCell('D2').dataValidation).toMatchObject({ type: 'list', formulae: ['Rates!$A$1:$A$3'] });
+    expect((copy as any).conditionalFormattings).toEqual([
+      expect.objectContaining({ ref: 'A2:A3', rules: [expect.objectContaining({ formulae: ['A2>Rates!$A$1'] })] }),
+    ]);
+    expect(copy.autoFilter).toBe('A1:D1');
+
+    // The copy is written and read back like any sheet
+    const loaded = new ExcelJS.Workbook();
+    await loaded.xlsx.load((await target.xlsx.writeBuffer()) as any);
+    expect(loaded.getWorksheet('Copy')?.getCell('B3').formula).toBe('A3*Rates!$A$1');
+  });
+
+  test('should expand shared formulas and rename references on demand', async () => {
+    const source = await sourceWorkbook();
+    const copy = await copyWorksheet(source, 'Data', source, 'Data 2', {
+      sharedFormulas: 'expand',
+      renameReferences: { rates: 'Rates 2024' },
+    });
+
+    expect(copy.getCell('B2').value).toEqual({ formula: "A2*'Rates 2024'!$A$1", result: 3 });
+    expect(copy.getCell('B3').value).toEqual({ formula: "A3*'Rates 2024'!$A$1", result: 6 });
+    expect(copy.getCell('C2').hyperlink).toBe("#'Rates 2024'!A1");
+    expect(copy.getCell('D2').dataValidation.formulae).toEqual(["'Rates 2024'!$A$1:$A$3"]);
+    expect((copy as any).conditionalFormattings[0].rules[0].formulae).toEqual(["A2>'Rates 2024'!$A$1"]);
+    // The source is left as it was
+    expect(source.getWorksheet('Data')?.getCell('B2').formula).toBe('A2*Rates!$A$1');
+    expect(source.getWorksheet('Data')?.getCell('D2').dataValidation.formulae).toEqual(['Rates!$A$1:$A$3']);
+  });
+
+  test('should copy columns past the last cell, print settings and the names of the sheet', async () => {
+    const target = new ExcelJS.Workbook();
+    await copyWorksheet(await sourceWorkbook(), 'Data', target, 'Copy Data');
+    const loaded = new ExcelJS.Workbook();
+    await loaded.xlsx.load((await target.xlsx.writeBuffer()) as any);
+
+    const copy = loaded.getWorksheet('Copy Data');
+    expect(copy?.getColumn(6).width).toBe(40);
+    expect(copy?.pageSetup).toMatchObject({ printArea: 'A1:D3', printTitlesRow: '1:1' });
+    expect(loaded.definedNames.model).toEqual([{ name: 'Amounts', ranges: ["'Copy Data'!$A$2:$A$3"] }]);
+  });
+
+  test('should reject unknown sheets', async () => {
+    await expect(copyWorksheet(new ExcelJS.Workbook(), 'Missing', new ExcelJS.Workbook())).rejects.toThrow(
+      "Worksheet 'Missing' not found"
+    );
+  });
+});
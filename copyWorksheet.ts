@@ -0,0 +1,146 @@
+import * as ExcelJS from 'exceljs';
+import { cloneDeep } from 'lodash';
+import { renameSheetInFormula, renameSheetsInFormula, tokenizeFormula } from './formulaTokenizer';
+import { updateWorksheetFormulas } from './renameWorksheetAndUpdateFormulas';
+import type { WorksheetInternals } from './renameWorksheetAndUpdateFormulas';
+
+interface CopyWorksheetOptions {
+  // 'preserve' (default): shared formulas stay shared, 'expand': every cell gets its own formula
+  sharedFormulas?: 'preserve' | 'expand';
+  // Sheets to rename in the references of the copied formulas, validations, rules and links, by current name,
+  // e.g. { Rates: 'Rates 2024' } when the copy must read another sheet of the destination workbook
+  renameReferences?: Record<string, string>;
+}
+
+// Formula values as loaded: the master cell of a shared formula also has its share type and range
+type LoadedFormulaValue =
+  | (ExcelJS.CellFormulaValue & { shareType?: 'shared' | 'array'; ref?: string })
+  | ExcelJS.CellSharedFormulaValue;
+
+/**
+ * Copies a worksheet into another workbook (or the same one under another name): values, formulas, styles,
+ * number formats, column widths, row heights, merged cells, hyperlinks, notes, data validations,
+ * conditional formatting, views, autofilter, print areas and titles, and the defined names of its cells.
+ * Formulas are copied as written, their references to other sheets point to the sheets of the destination
+ * workbook unless renamed.
+ * @param srcWorkbook The workbook containing the worksheet
+ * @param srcName The name of the worksheet to copy
+ * @param dstWorkbook The workbook receiving the copy
+ * @param dstName The name of the copy, default: the name of the worksheet
+ * @param options Shared formula handling and references to rename
+ * @returns The new worksheet
+ */
+async function copyWorksheet(
+  srcWorkbook: ExcelJS.Workbook,
+  srcName: string,
+  dstWorkbook: ExcelJS.Workbook,
+  dstName: string = srcName,
+  options: CopyWorksheetOptions = {}
+): Promise<ExcelJS.Worksheet> {
+  const source = srcWorkbook.getWorksheet(srcName);
+  if (!source) {
+    throw new Error(`Worksheet '${srcName}' not found`);
+  }
+
+  const target = dstWorkbook.addWorksheet(dstName, {
+    properties: cloneDeep(source.properties),
+    pageSetup: cloneDeep(source.pageSetup),
+    views: cloneDeep(source.views),
+    state: source.state,
+  });
+
+  // Cells of a loaded workbook share their style objects, so each style is cloned once
+  const styles = new Map<object, Partial<ExcelJS.Style>>();
+  const cloneStyle = (style: Partial<ExcelJS.Style>) => {
+    if (!styles.has(style)) styles.set(style, cloneDeep(style));
+    return styles.get(style) as Partial<ExcelJS.Style>;
+  };
+
+  // Defined columns, including the ones past the last cell (a width or a style without values)
+  (source.columns ?? []).forEach((column, i) => {
+    const copy = target.getColumn(i + 1);
+    if (column.width !== undefined) copy.width = column.width;
+    if (column.hidden) copy.hidden = true;
+    if (column.outlineLevel) copy.outlineLevel = column.outlineLevel;
+    if (column.style && Object.keys(column.style).length > 0) copy.style = cloneStyle(column.style);
+  });
+
+  source.eachRow({ includeEmpty: true }, (row, r) => {
+    const copy = target.getRow(r);
+    if (row.height !== undefined) copy.height = row.height;
+    if (row.hidden) copy.hidden = true;
+    if (row.outlineLevel) copy.outlineLevel = row.outlineLevel;
+
+    row.eachCell({ includeEmpty: true }, (cell, c) => {
+      const copyCell = copy.getCell(c);
+      // Merged cells other than the top-left one only keep their style, the merge is copied below
+      if (cell.type !== ExcelJS.ValueType.Merge) copyCell.value = copyValue(cell, options);
+      if (cell.style) copyCell.style = cloneStyle(cell.style);
+      if (cell.note !== undefined) copyCell.note = cloneDeep(cell.note);
+    });
+  });
+
+  // Without the style of the top-left cell, so that the borders of the other cells stay
+  source.model.merges.forEach((range) => target.mergeCellsWithoutStyle(range));
+
+  // Validations are kept by cell, including cells without a value; the cells of a range share theirs
+  const { dataValidations, conditionalFormattings } = source as ExcelJS.Worksheet & WorksheetInternals;
+  const validations = new Map<ExcelJS.DataValidation, ExcelJS.DataValidation>();
+  Object.entries(dataValidations.model).forEach(([address, validation]) => {
+    if (!validation) return;
+    if (!validations.has(validation)) validations.set(validation, cloneDeep(validation));
+    target.getCell(address).dataValidation = validations.get(validation) as ExcelJS.DataValidation;
+  });
+  conditionalFormattings.forEach((formatting) => target.addConditionalFormatting(cloneDeep(formatting)));
+  if (source.autoFilter) target.autoFilter = cloneDeep(source.autoFilter);
+
+  copyDefinedNames(srcWorkbook, source.name, dstWorkbook, target.name);
+
+  const { renameReferences } = options;
+  if (renameReferences && Object.keys(renameReferences).length > 0) {
+    const names = new Map(Object.entries(renameReferences).map(([from, to]) => [from.toLowerCase(), to]));
+    updateWorksheetFormulas(target, (formula) =>
+      renameSheetsInFormula(formula, (sheet) => names.get(sheet.toLowerCase()))
+    );
+  }
+
+  return target;
+}
+
+// The value of the copied cell: shared formulas are kept with their master cell, or written out
+function copyValue(cell: ExcelJS.Cell, options: CopyWorksheetOptions): ExcelJS.CellValue {
+  if (cell.type !== ExcelJS.ValueType.Formula || options.sharedFormulas !== 'expand') return cloneDeep(cell.value);
+  const value = cell.value as LoadedFormulaValue;
+  if ('sharedFormula' in value || value.shareType === 'shared') {
+    return { formula: cell.formula, result: cloneDeep(value.result) };
+  }
+  return cloneDeep(value);
+}
+
+// Names of cells of the sheet only ('Rates!$A$2:$A$9'), pointing to the copy. ExcelJS keeps every name
+// workbook-wide, so the names the destination already has are left as they are. Print areas and titles
+// are part of the page setup.
+function copyDefinedNames(
+  srcWorkbook: ExcelJS.Workbook,
+  srcName: string,
+  dstWorkbook: ExcelJS.Workbook,
+  dstName: string
+): void {
+  const onSheet = (range: string) => {
+    const sheets = tokenizeFormula(range).find((token) => token.type === 'sheet')?.sheets;
+    return sheets?.length === 1 && sheets[0].toLowerCase() === srcName.toLowerCase();
+  };
+  const existing = new Set(dstWorkbook.definedNames.model.map(({ name }) => name));
+  const copied = srcWorkbook.definedNames.model
+    .filter(({ name, ranges }) => !existing.has(name) && ranges.length > 0 && ranges.every(onSheet))
+    .map(({ name, ranges }) => ({
+      name,
+      ranges: ranges.map((range) => renameSheetInFormula(range, srcName, dstName)),
+    }));
+  if (copied.length > 0) {
+    dstWorkbook.definedNames.model = [...dstWorkbook.definedNames.model, ...copied];
+  }
+}
+
+export type { CopyWorksheetOptions };
+export default copyWorksheet;
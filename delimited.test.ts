@@ -0,0 +1,97 @@
+import {
+  parseDelimited,
+  parseDelimitedStream,
+  sniffDelimiter,
+  stringifyDelimited,
+  stringifyDelimitedStream,
+} from './delimited';
+import { matrixToObjectArray, matrixToObjectStream } from './matrixUtils';
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+  const result: T[] = [];
+  for await (const item of stream) result.push(item);
+  return result;
+};
+
+describe('parseDelimited', () => {
+  test('should parse quoted fields, escaped quotes and embedded line breaks', () => {
+    const text = 'id,name,note\r\n1,"Smith, John","said ""hi""\nand left"\r\n2,,plain "quote"\n';
+    expect(parseDelimited(text)).toEqual([
+      ['id', 'name', 'note'],
+      ['1', 'Smith, John', 'said "hi"\nand left'],
+      ['2', '', 'plain "quote"'],
+    ]);
+  });
+
+  test('should handle BOMs, CR line endings and empty lines', () => {
+    expect(parseDelimited('\uFEFFa,b\r1,2\r\r3,""\r')).toEqual([['a', 'b'], ['1', '2'], [''], ['3', '']]);
+    expect(parseDelimited('a\n\n""\nb', { skipEmptyLines: true })).toEqual([['a'], [''], ['b']]);
+    expect(parseDelimited('')).toEqual([]);
+  });
+
+  test('should use the given or sniffed delimiter', () => {
+    expect(parseDelimited('a\tb\n1\t2', { delimiter: '\t' })).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseDelimited('a;b;"c;d"\n1,5;2;3', { delimiter: 'auto' })).toEqual([['a', 'b', 'c;d'], ['1,5', '2', '3']]);
+    expect(sniffDelimiter('a|b|c\n1|2|3')).toBe('|');
+    expect(sniffDelimiter('"x,y"\tb\n1\t2')).toBe('\t');
+    expect(sniffDelimiter('single column')).toBe(',');
+  });
+
+  test('should reject unclosed quotes', () => {
+    expect(() => parseDelimited('a\n"b\nc')).toThrow('Unclosed quote starting on line 2');
+  });
+
+  test('should feed matrixToObjectArray', () => {
+    expect(matrixToObjectArray(parseDelimited('id,rate\n1,0.5'))).toEqual([{ id: '1', rate: '0.5' }]);
+  });
+});
+
+describe('stringifyDelimited', () => {
+  test('should quote fields only when needed', () => {
+    const matrix = [
+      ['id', 'note', 'when'],
+      [1, 'a,b', new Date('2024-03-01T00:00:00Z')],
+      [null, 'say "hi"\n', undefined],
+    ];
+    expect(stringifyDelimited(matrix)).toBe(
+      'id,note,when\r\n1,"a,b",2024-03-01T00:00:00.000Z\r\n,"say ""hi""\n",\r\n'
+    );
+    expect(stringifyDelimited([['a', 1]], { delimiter: ';', quoteAll: true, newline: '\n', bom: true })).toBe(
+      '\uFEFF"a";"1"\n'
+    );
+  });
+
+  test('should round-trip through parseDelimited', () => {
+    const matrix = [['a', '"', ''], ['line\r\nbreak', ',', ' x '], [''], ['last']];
+    expect(parseDelimited(stringifyDelimited(matrix))).toEqual(matrix);
+    expect(parseDelimited(stringifyDelimited(matrix, { delimiter: '\t', bom: true }), { delimiter: 'auto' })).toEqual(
+      matrix
+    );
+  });
+});
+
+describe('streaming', () => {
+  test('should parse chunks split anywhere, including inside quotes, CRLF and characters', async () => {
+    const text = 'id;name\r\n1;"Zoë\r\n""Z"""\r\n2;Bob\r\n';
+    const bytes = new TextEncoder().encode('\uFEFF' + text);
+    const chunks = Array.from(bytes, (byte) => new Uint8Array([byte]));
+    expect(await collect(parseDelimitedStream(chunks, { delimiter: 'auto' }))).toEqual(
+      parseDelimited(text, { delimiter: ';' })
+    );
+    expect(await collect(parseDelimitedStream(text.split('')))).toEqual(parseDelimited(text));
+  });
+
+  test('should pipe into matrixToObjectStream and stringify lazily', async () => {
+    async function* file() {
+      yield 'id,name\n1,a\n';
+      yield '2,"b\nc"\n';
+    }
+    const objects = await collect(matrixToObjectStream(parseDelimitedStream(file())));
+    expect(objects).toEqual([
+      { id: '1', name: 'a' },
+      { id: '2', name: 'b\nc' },
+    ]);
+    const lines = await collect(stringifyDelimitedStream([['id'], ['1']], { bom: true }));
+    expect(lines).toEqual(['\uFEFFid\r\n', '1\r\n']);
+  });
+});
@@ -0,0 +1,213 @@
+// Delimiters tried by delimiter: 'auto', in order of preference on ties
+const SNIFF_DELIMITERS = [',', ';', '\t', '|'];
+// Lines looked at when sniffing the delimiter
+const SNIFF_LINES = 10;
+
+export interface ParseDelimitedOptions {
+  // Field separator, default ','. 'auto' picks ',', ';', tab or '|' from the first lines.
+  delimiter?: string;
+  // Default '"', a doubled quote inside a quoted field is a literal quote
+  quote?: string;
+  // Drop lines without any character instead of returning them as ['']
+  skipEmptyLines?: boolean;
+}
+
+export interface StringifyDelimitedOptions {
+  // Default ','
+  delimiter?: string;
+  // Default '"'
+  quote?: string;
+  // Line break written after every row, default '\r\n' (RFC 4180)
+  newline?: string;
+  // Quote every field, not only those containing a delimiter, quote or line break
+  quoteAll?: boolean;
+  // Start with a byte order mark, so that Excel reads the file as UTF-8
+  bom?: boolean;
+}
+
+interface Parser {
+  push(text: string): string[][];
+  end(): string[][];
+}
+
+// Parses CSV/TSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes, CRLF, LF or CR)
+// into the matrix shape used by matrixToObjectArray. Cells are strings, a leading BOM is removed.
+export function parseDelimited(text: string, options: ParseDelimitedOptions = {}): string[][] {
+  const source = stripBom(text ?? '');
+  const parser = createParser({ ...options, delimiter: resolveDelimiter(source, options) });
+  return [...parser.push(source), ...parser.end()];
+}
+
+// Streaming parseDelimited: reads chunks (strings or UTF-8 bytes, e.g. a file read stream) and yields rows
+// as soon as they are complete. The next chunk is only read when the consumer asks for more rows,
+// so it can be piped into matrixToObjectStream without holding the file in memory.
+export async function* parseDelimitedStream(
+  chunks: Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+  options: ParseDelimitedOptions = {}
+): AsyncGenerator<string[], void, undefined> {
+  // TextDecoder removes the BOM and keeps multi-byte characters split across chunks
+  const decoder = new TextDecoder('utf-8');
+  let parser: Parser | undefined;
+  let head = '';
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    if (!parser) {
+      // Sniffing needs the first lines, they are buffered until then
+      head += text;
+      if (options.delimiter === 'auto' && countLines(head) < SNIFF_LINES) continue;
+      head = stripBom(head);
+      parser = createParser({ ...options, delimiter: resolveDelimiter(head, options) });
+      yield* parser.push(head);
+    } else {
+      yield* parser.push(text);
+    }
+  }
+  const rest = decoder.decode();
+  if (!parser) {
+    head = stripBom(head + rest);
+    parser = createParser({ ...options, delimiter: resolveDelimiter(head, options) });
+    yield* parser.push(head);
+  } else if (rest) {
+    yield* parser.push(rest);
+  }
+  yield* parser.end();
+}
+
+// The reverse of parseDelimited. null and undefined are written as empty fields, dates in ISO format.
+export function stringifyDelimited(matrix: any[][], options: StringifyDelimitedOptions = {}): string {
+  const lines = (Array.isArray(matrix) ? matrix : []).map((row) => stringifyRow(row, options));
+  return (options.bom ? '\uFEFF' : '') + lines.join('');
+}
+
+// Streaming stringifyDelimited: yields one line (with its line break) per row
+export async function* stringifyDelimitedStream(
+  rows: Iterable<any[]> | AsyncIterable<any[]>,
+  options: StringifyDelimitedOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  let first = true;
+  for await (const row of rows) {
+    yield (first && options.bom ? '\uFEFF' : '') + stringifyRow(row, options);
+    first = false;
+  }
+}
+
+// Picks the delimiter found the same number of times (outside quotes) on most of the first lines
+export function sniffDelimiter(text: string, quote = '"'): string {
+  const unquoted = text.split(quote).filter((_part, i) => i % 2 === 0).join('');
+  const lines = unquoted.split(/\r\n|\n|\r/).slice(0, SNIFF_LINES).filter((line) => line !== '');
+  let best = SNIFF_DELIMITERS[0];
+  let bestScore = 0;
+  SNIFF_DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => line.split(delimiter).length - 1);
+    if (counts.length === 0 || counts[0] === 0) return;
+    // Lines agreeing with the first line count most, the number of fields breaks ties
+    const score = counts.filter((count) => count === counts[0]).length * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function resolveDelimiter(text: string, { delimiter = ',', quote = '"' }: ParseDelimitedOptions): string {
+  return delimiter === 'auto' ? sniffDelimiter(text, quote) : delimiter;
+}
+
+function createParser({ delimiter = ',', quote = '"', skipEmptyLines = false }: ParseDelimitedOptions): Parser {
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Just after a closing quote: another quote is an escaped quote
+  let afterQuote = false;
+  // A '\r' ended the last row, a following '\n' belongs to it (even in the next chunk)
+  let afterCR = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (!(skipEmptyLines && row.length === 1 && row[0] === '' && !afterQuote)) rows.push(row);
+    row = [];
+    field = '';
+  };
+  const take = () => {
+    const result = rows;
+    rows = [];
+    return result;
+  };
+
+  return {
+    push(text: string) {
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (afterCR) {
+          afterCR = false;
+          if (char === '\n') continue;
+        }
+        if (inQuotes) {
+          if (char === quote) {
+            inQuotes = false;
+            afterQuote = true;
+          } else {
+            if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+            field += char;
+          }
+          continue;
+        }
+        if (afterQuote && char === quote) {
+          field += quote;
+          inQuotes = true;
+          afterQuote = false;
+          continue;
+        }
+        if (char === delimiter) {
+          row.push(field);
+          field = '';
+        } else if (char === '\n' || char === '\r') {
+          endRow();
+          line++;
+          afterCR = char === '\r';
+        } else if (char === quote && field === '') {
+          inQuotes = true;
+          quoteLine = line;
+        } else {
+          // Quotes inside an unquoted field, or text after a closing quote, are kept as is
+          field += char;
+        }
+        afterQuote = false;
+      }
+      return take();
+    },
+    end() {
+      if (inQuotes) {
+        throw new Error(`Unclosed quote starting on line ${quoteLine}`);
+      }
+      if (field !== '' || row.length > 0 || afterQuote) endRow();
+      return take();
+    },
+  };
+}
+
+function stringifyRow(
+  row: any[],
+  { delimiter = ',', quote = '"', newline = '\r\n', quoteAll = false }: StringifyDelimitedOptions
+): string {
+  const fields = (Array.isArray(row) ? row : []).map((value) => {
+    const text = value == null ? '' : value instanceof Date ? value.toISOString() : String(value);
+    const needsQuotes =
+      quoteAll || text.includes(delimiter) || text.includes(quote) || text.includes('\n') || text.includes('\r');
+    return needsQuotes ? quote + text.split(quote).join(quote + quote) + quote : text;
+  });
+  return fields.join(delimiter) + newline;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function countLines(text: string): number {
+  return text.split(/\r\n|\n|\r/).length - 1;
+}
@@ -0,0 +1,88 @@
+import { diffMatrices } from './diffMatrices';
+
+describe('diffMatrices', () => {
+  const before = [
+    ['ID', 'Name', 'Rate', 'Old'],
+    [1, 'a', 0.5, 'x'],
+    [2, 'b', 0.7, 'y'],
+    [3, 'c', null, 'z'],
+  ];
+  const after = [
+    ['ID', 'Rate', 'Name', 'New'],
+    [3, '', 'c', 1],
+    [1, 0.6, 'a', 2],
+    [4, 0.1, 'd', 3],
+  ];
+
+  test('should report columns, rows and changed cells', () => {
+    const diff = diffMatrices(before, after, { key: ['ID'] });
+    expect(diff.addedColumns).toEqual(['New']);
+    expect(diff.removedColumns).toEqual(['Old']);
+    expect(diff.changedRows).toEqual([
+      { key: [1], beforeRow: 2, afterRow: 3, changes: [{ column: 'Rate', before: 0.5, after: 0.6 }] },
+    ]);
+    expect(diff.unchangedRows).toBe(1);
+    expect(diff.removedRows).toEqual([
+      {
+        key: [2],
+        beforeRow: 3,
+        changes: [
+          { column: 'ID', before: 2, after: undefined },
+          { column: 'Name', before: 'b', after: undefined },
+          { column: 'Rate', before: 0.7, after: undefined },
+          { column: 'Old', before: 'y', after: undefined },
+        ],
+      },
+    ]);
+    expect(diff.addedRows.map(({ key, afterRow }) => ({ key, afterRow }))).toEqual([{ key: [4], afterRow: 4 }]);
+    expect(diff.duplicateKeys).toEqual([]);
+  });
+
+  test('should return a matrix for createWorkbookFromObject', () => {
+    expect(diffMatrices(before, after, { key: ['ID'] }).matrix).toEqual([
+      ['Change', 'ID', 'Column', 'Before', 'After'],
+      ['column added', undefined, 'New', undefined, undefined],
+      ['column removed', undefined, 'Old', undefined, undefined],
+      ['row added', 4, undefined, undefined, undefined],
+      ['row removed', 2, undefined, undefined, undefined],
+      ['changed', 1, 'Rate', 0.5, 0.6],
+    ]);
+  });
+
+  test('should report duplicate composite keys and match them in order', () => {
+    const left = [['Desk', 'Day', 'PnL'], ['FX', 1, 10], ['FX', 1, 20], ['IR', 1, 5]];
+    const right = [['Desk', 'Day', 'PnL'], ['FX', 1, 10], ['FX', 1, 25], ['FX', 1, 30], ['IR', 1, 5]];
+    const diff = diffMatrices(left, right, { key: ['Desk', 'Day'] });
+    expect(diff.duplicateKeys).toEqual([
+      { key: ['FX', 1], side: 'before', rows: [2, 3] },
+      { key: ['FX', 1], side: 'after', rows: [2, 3, 4] },
+    ]);
+    expect(diff.changedRows).toEqual([
+      { key: ['FX', 1], beforeRow: 3, afterRow: 3, changes: [{ column: 'PnL', before: 20, after: 25 }] },
+    ]);
+    expect(diff.addedRows.map((row) => row.afterRow)).toEqual([4]);
+    expect(diff.matrix[1]).toEqual(['duplicate key in before', 'FX', 1, undefined, 'rows 2, 3', undefined]);
+  });
+
+  test('should use the cell comparison', () => {
+    const isEqual = (a: any, b: any) => Math.abs(Number(a) - Number(b)) < 0.01;
+    const diff = diffMatrices([['ID', 'v'], [1, 1.001]], [['ID', 'v'], [1, '1']], { key: ['ID'], isEqual });
+    expect(diff.changedRows).toEqual([]);
+  });
+
+  test('should match numeric keys with their text, as read from CSV', () => {
+    const csv = [['ID', 'v'], ['1', 'a'], ['2', 'c']];
+    const diff = diffMatrices([['ID', 'v'], [1, 'a'], [2, 'b']], csv, { key: ['ID'] });
+    expect(diff.addedRows).toEqual([]);
+    expect(diff.removedRows).toEqual([]);
+    expect(diff.changedRows).toEqual([
+      { key: [2], beforeRow: 3, afterRow: 3, changes: [{ column: 'v', before: 'b', after: 'c' }] },
+    ]);
+    const strict = diffMatrices([['ID'], [1]], [['ID'], ['1']], { key: ['ID'], keyOf: (value) => value });
+    expect(strict.addedRows).toHaveLength(1);
+  });
+
+  test('should reject unknown key columns', () => {
+    expect(() => diffMatrices(before, [['Name']], { key: ['ID'] })).toThrow("Key column 'ID' not found in after");
+  });
+});
@@ -0,0 +1,196 @@
+import { isEqual } from 'lodash';
+import { isEmptyValue } from './trimMatrix';
+
+export interface DiffMatricesOptions {
+  // Headers of the columns identifying a row
+  key: string[];
+  // Cell comparison, default: deep equality where null, undefined and blank strings are all equal
+  isEqual?: (before: any, after: any, column: string) => boolean;
+  // Identity of a key value, default: its text, so that 1 from a sheet matches '1' from a CSV file
+  // (null, undefined and blank strings are all '', dates are their ISO text)
+  keyOf?: (value: any, column: string) => any;
+}
+
+export interface CellChange {
+  column: string;
+  before: any;
+  after: any;
+}
+
+// Row numbers are sheet row numbers: the header is row 1, matrix[i] is row i + 1
+export interface RowDiff {
+  key: any[];
+  beforeRow?: number;
+  afterRow?: number;
+  changes: CellChange[];
+}
+
+export interface DuplicateKey {
+  key: any[];
+  side: 'before' | 'after';
+  rows: number[];
+}
+
+export interface MatrixDiff {
+  addedColumns: string[];
+  removedColumns: string[];
+  // Rows only in after, or only in before (with every cell as an after or before value)
+  addedRows: RowDiff[];
+  removedRows: RowDiff[];
+  // Rows in both with at least one changed cell, columns present in both matrices only
+  changedRows: RowDiff[];
+  unchangedRows: number;
+  // Keys found on several rows, their occurrences are matched in order
+  duplicateKeys: DuplicateKey[];
+  // One line per change, for createWorkbookFromObject: Change, key columns, Column, Before, After
+  matrix: any[][];
+}
+
+export function diffMatrices(before: any[][], after: any[][], options: DiffMatricesOptions): MatrixDiff {
+  const equals = options.isEqual ?? isEqualCell;
+  const [beforeHeaders = [], ...beforeRows] = Array.isArray(before) ? before : [];
+  const [afterHeaders = [], ...afterRows] = Array.isArray(after) ? after : [];
+  const beforeColumns = columnIndexes(beforeHeaders);
+  const afterColumns = columnIndexes(afterHeaders);
+  const beforeKey = keyReader(beforeColumns, options.key, 'before');
+  const afterKey = keyReader(afterColumns, options.key, 'after');
+  const keyOf = options.keyOf ?? keyText;
+  const idOf = (values: any[]) => JSON.stringify(values.map((value, i) => keyOf(value, options.key[i])));
+
+  const addedColumns = Array.from(afterColumns.keys()).filter((column) => !beforeColumns.has(column));
+  const removedColumns = Array.from(beforeColumns.keys()).filter((column) => !afterColumns.has(column));
+  const commonColumns = Array.from(beforeColumns.keys()).filter(
+    (column) => afterColumns.has(column) && !options.key.includes(column)
+  );
+
+  const duplicateKeys: DuplicateKey[] = [];
+  const beforeIndex = indexRows(beforeRows, beforeKey, idOf, 'before', duplicateKeys);
+  const afterIndex = indexRows(afterRows, afterKey, idOf, 'after', duplicateKeys);
+
+  const result: MatrixDiff = {
+    addedColumns,
+    removedColumns,
+    addedRows: [],
+    removedRows: [],
+    changedRows: [],
+    unchangedRows: 0,
+    duplicateKeys,
+    matrix: [],
+  };
+
+  // Rows of before, in order, matched with the same occurrence of their key in after
+  beforeIndex.forEach((rows, id) => {
+    const matches = afterIndex.get(id) ?? [];
+    rows.forEach((beforeIdx, occurrence) => {
+      const key = beforeKey(beforeRows[beforeIdx]);
+      const afterIdx = matches[occurrence];
+      if (afterIdx === undefined) {
+        const changes = Array.from(beforeColumns.entries()).map(([column, c]) => ({
+          column,
+          before: beforeRows[beforeIdx][c],
+          after: undefined,
+        }));
+        result.removedRows.push({ key, beforeRow: beforeIdx + 2, changes });
+        return;
+      }
+      const changes = commonColumns
+        .map((column) => ({
+          column,
+          before: beforeRows[beforeIdx][beforeColumns.get(column) as number],
+          after: afterRows[afterIdx][afterColumns.get(column) as number],
+        }))
+        .filter((change) => !equals(change.before, change.after, change.column));
+      if (changes.length > 0) {
+        result.changedRows.push({ key, beforeRow: beforeIdx + 2, afterRow: afterIdx + 2, changes });
+      } else {
+        result.unchangedRows++;
+      }
+    });
+  });
+  afterIndex.forEach((rows, id) => {
+    const matched = beforeIndex.get(id)?.length ?? 0;
+    rows.slice(matched).forEach((afterIdx) => {
+      const changes = Array.from(afterColumns.entries()).map(([column, c]) => ({
+        column,
+        before: undefined,
+        after: afterRows[afterIdx][c],
+      }));
+      result.addedRows.push({ key: afterKey(afterRows[afterIdx]), afterRow: afterIdx + 2, changes });
+    });
+  });
+
+  result.matrix = toMatrix(result, options.key);
+  return result;
+}
+
+function keyText(value: any): string {
+  if (isEmptyValue(value)) return '';
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function isEqualCell(before: any, after: any): boolean {
+  if (isEmptyValue(before) && isEmptyValue(after)) return true;
+  return isEqual(before, after);
+}
+
+// Header → column index, the first column wins for repeated headers
+function columnIndexes(headers: any[]): Map<string, number> {
+  const columns = new Map<string, number>();
+  headers.forEach((header, idx) => {
+    const name = String(header ?? '');
+    if (name !== '' && !columns.has(name)) columns.set(name, idx);
+  });
+  return columns;
+}
+
+function keyReader(columns: Map<string, number>, key: string[], side: string): (row: any[]) => any[] {
+  const indexes = key.map((column) => {
+    if (!columns.has(column)) throw new Error(`Key column '${column}' not found in ${side}`);
+    return columns.get(column) as number;
+  });
+  return (row) => indexes.map((idx) => (Array.isArray(row) ? row[idx] : undefined));
+}
+
+// Row indexes by key, in order, reporting keys found more than once
+function indexRows(
+  rows: any[][],
+  keyOf: (row: any[]) => any[],
+  idOf: (values: any[]) => string,
+  side: 'before' | 'after',
+  duplicates: DuplicateKey[]
+): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  rows.forEach((row, idx) => {
+    const id = idOf(keyOf(row));
+    const indexes = index.get(id);
+    if (indexes) {
+      indexes.push(idx);
+    } else {
+      index.set(id, [idx]);
+    }
+  });
+  index.forEach((indexes) => {
+    if (indexes.length > 1) {
+      duplicates.push({ key: keyOf(rows[indexes[0]]), side, rows: indexes.map((idx) => idx + 2) });
+    }
+  });
+  return index;
+}
+
+function toMatrix(diff: MatrixDiff, key: string[]): any[][] {
+  const blankKey = key.map(() => undefined);
+  const lines: any[][] = [['Change', ...key, 'Column', 'Before', 'After']];
+  diff.addedColumns.forEach((column) => lines.push(['column added', ...blankKey, column, undefined, undefined]));
+  diff.removedColumns.forEach((column) => lines.push(['column removed', ...blankKey, column, undefined, undefined]));
+  diff.duplicateKeys.forEach(({ key: values, side, rows }) =>
+    lines.push([`duplicate key in ${side}`, ...values, undefined, `rows ${rows.join(', ')}`, undefined])
+  );
+  diff.addedRows.forEach(({ key: values }) => lines.push(['row added', ...values, undefined, undefined, undefined]));
+  diff.removedRows.forEach(({ key: values }) =>
+    lines.push(['row removed', ...values, undefined, undefined, undefined])
+  );
+  diff.changedRows.forEach(({ key: values, changes }) =>
+    changes.forEach(({ column, before, after }) => lines.push(['changed', ...values, column, before, after]))
+  );
+  return lines;
+}
@@ -0,0 +1,226 @@
+import ExcelJS from 'exceljs';
+import {
+  bufferToWorkbook,
+  createWorkbookFromObject,
+  objectsToWorkbook,
+  workbookToBuffer,
+  workbookToObject,
+} from './excelUtils.helper';
+
+async function roundTrip(workbook: ExcelJS.Workbook): Promise<ExcelJS.Workbook> {
+  return bufferToWorkbook(await workbookToBuffer(workbook));
+}
+
+async function sampleWorkbook(): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Cells');
+  worksheet.getCell('A1').value = 'Merged';
+  worksheet.mergeCells('A1:B2');
+  worksheet.getCell('C1').value = { formula: 'A1&"!"', result: 'Merged!', shareType: 'shared', ref: 'C1:C2' } as any;
+  worksheet.getCell('C2').value = { sharedFormula: 'C1', result: '!' } as any;
+  worksheet.getCell('D1').value = { richText: [{ text: 'Bold', font: { bold: true } }, { text: ' text' }] };
+  worksheet.getCell('D2').value = new Date(Date.UTC(2024, 0, 2, 12));
+  worksheet.getCell('E1').value = { error: '#N/A' } as any;
+  worksheet.getCell('E2').value = { text: 'Link', hyperlink: 'https://example.com' };
+  // Formatted but empty cells after the used range
+  worksheet.getCell('G5').numFmt = '0.00';
+  workbook.addWorksheet('Other').addRow([1]);
+  return roundTrip(workbook);
+}
+
+describe('workbookToObject', () => {
+  test('should read back the sheets written by createWorkbookFromObject', async () => {
+    const data = {
+      Trades: [
+        ['ID', 'Amount', 'Active'],
+        [1, 10.5, true],
+        [2, null, false],
+      ],
+    };
+    const workbook = await roundTrip(createWorkbookFromObject(data));
+    expect(workbookToObject(workbook)).toEqual(data);
+  });
+
+  test('should read cached formula results, flatten rich text and keep merged values top-left', async () => {
+    expect(workbookToObject(await sampleWorkbook(), { sheets: ['Cells'] })).toEqual({
+      Cells: [
+        ['Merged', null, 'Merged!', 'Bold text', '#N/A'],
+        [null, null, '!', new Date(Date.UTC(2024, 0, 2, 12)), 'Link'],
+      ],
+    });
+  });
+
+  test('should read formulas, serial dates, raw values and filled merges on demand', async () => {
+    const { Cells } = workbookToObject(await sampleWorkbook(), {
+      formulas: 'formula',
+      dates: 'serial',
+      richText: 'value',
+      fillMerged: true,
+    });
+    expect(Cells[0].slice(0, 4)).toEqual([
+      'Merged',
+      'Merged',
+      '=A1&"!"',
+      { richText: [{ text: 'Bold', font: { bold: true } }, { text: ' text' }] },
+    ]);
+    expect(Cells[1].slice(0, 5)).toEqual([
+      'Merged',
+      'Merged',
+      '=A2&"!"',
+      45293.5,
+      { text: 'Link', hyperlink: 'https://example.com' },
+    ]);
+  });
+
+  test('should fill merged formula cells like their top-left cell', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Totals');
+    worksheet.getCell('A1').value = 2;
+    worksheet.getCell('B1').value = { formula: 'A1*2', result: 4 };
+    worksheet.mergeCells('B1:C1');
+    const loaded = await roundTrip(workbook);
+    expect(workbookToObject(loaded, { fillMerged: true }).Totals).toEqual([[2, 4, 4]]);
+    expect(workbookToObject(loaded, { fillMerged: true, formulas: 'formula' }).Totals).toEqual([[2, '=A1*2', '=A1*2']]);
+  });
+
+  test('should not add rows or cells to the workbook it reads', () => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Sparse');
+    worksheet.getCell('A1').value = 1;
+    worksheet.getCell('C3').value = 3;
+    // Rows that exist, with their last cell
+    const cellCounts = () => [1, 2, 3].map(r => worksheet.findRow(r)?.cellCount);
+    expect(cellCounts()).toEqual([1, undefined, 3]);
+
+    expect(workbookToObject(workbook, { trim: false }).Sparse).toEqual([
+      [1, null, null],
+      [null, null, null],
+      [null, null, 3],
+    ]);
+    expect(worksheet.actualRowCount).toBe(2);
+    expect(cellCounts()).toEqual([1, undefined, 3]);
+  });
+
+  test('should keep the empty cells after the used range unless trimming', async () => {
+    const { Cells } = workbookToObject(await sampleWorkbook(), { trim: false });
+    expect(Cells).toHaveLength(5);
+    expect(Cells.every((row) => row.length === 7)).toBe(true);
+    expect(Cells[4]).toEqual([null, null, null, null, null, null, null]);
+  });
+});
+
+describe('createWorkbookFromObject', () => {
+  test('should write cell specs with formulas, formats, styles, links and notes', async () => {
+    const workbook = createWorkbookFromObject(
+      {
+        Report: {
+          rows: [
+            [{ value: 'Amount', style: 'header' }, { value: 'Link', style: 'header' }],
+            [{ value: 1234.5, numFmt: '#,##0.00' }, { value: 'Docs', hyperlink: 'https://example.com' }],
+            [
+              { formula: '=SUM(A2:A2)', result: 1234.5, style: ['header', 'total'], font: { italic: true } },
+              { value: 'x', note: 'Checked' },
+            ],
+          ],
+        },
+      },
+      {
+        styles: {
+          header: { font: { bold: true }, fill: { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFDDEEFF' } } },
+          total: { numFmt: '#,##0.00', border: { top: { style: 'thin' } } },
+        },
+      }
+    );
+    const worksheet = (await roundTrip(workbook)).getWorksheet('Report') as ExcelJS.Worksheet;
+    expect(worksheet.getCell('A1').font).toMatchObject({ bold: true });
+    expect(worksheet.getCell('B1').fill).toMatchObject({ fgColor: { argb: 'FFDDEEFF' } });
+    expect(worksheet.getCell('A2').numFmt).toBe('#,##0.00');
+    expect(worksheet.getCell('B2').value).toEqual({ text: 'Docs', hyperlink: 'https://example.com' });
+    expect(worksheet.getCell('A3').value).toEqual({ formula: 'SUM(A2:A2)', result: 1234.5 });
+    expect(worksheet.getCell('A3').font).toMatchObject({ bold: true, italic: true });
+    expect(worksheet.getCell('A3').numFmt).toBe('#,##0.00');
+    expect(worksheet.getCell('A3').border.top).toEqual({ style: 'thin' });
+    expect(worksheet.getCell('B3').note).toBe('Checked');
+  });
+
+  test('should merge, freeze, filter and size columns', async () => {
+    const workbook = createWorkbookFromObject({
+      Sheet: {
+        rows: [
+          ['Title', null, null],
+          ['ID', 'Name', 'Secret'],
+          [1, 'A name longer than the minimum width', 'x'],
+        ],
+        merges: ['A1:C1'],
+        freeze: { rows: 2, columns: 1 },
+        autoFilter: 'A2:C2',
+        columns: [{ width: 6 }, undefined, { hidden: true }],
+      },
+      Plain: [['a'], [1]],
+    });
+    const { Sheet, Plain } = workbookToObject(await roundTrip(workbook));
+    expect(Sheet[0]).toEqual(['Title', null, null]);
+    expect(Plain).toEqual([['a'], [1]]);
+
+    const worksheet = workbook.getWorksheet('Sheet') as ExcelJS.Worksheet;
+    expect(worksheet.getCell('C1').isMerged).toBe(true);
+    expect(worksheet.views).toEqual([{ state: 'frozen', xSplit: 1, ySplit: 2 }]);
+    expect(worksheet.autoFilter).toBe('A2:C2');
+    expect(worksheet.getColumn(1).width).toBe(6);
+    expect(worksheet.getColumn(2).width).toBe(36);
+    expect(worksheet.getColumn(3).hidden).toBe(true);
+  });
+
+  test('should filter the header row and reject unknown styles', () => {
+    const workbook = createWorkbookFromObject({ Sheet: { rows: [['a', 'b']], autoFilter: true } });
+    const worksheet = workbook.getWorksheet('Sheet');
+    expect(worksheet?.autoFilter).toEqual({ from: { row: 1, column: 1 }, to: { row: 1, column: 2 } });
+    expect(() => createWorkbookFromObject({ Sheet: [[{ value: 1, style: 'missing' }]] })).toThrow(
+      "Unknown style 'missing' in cell Sheet!A1"
+    );
+  });
+});
+
+describe('objectsToWorkbook', () => {
+  const trades = [
+    { id: 'T1', trade: { date: new Date(Date.UTC(2024, 0, 2)), amount: 1500 }, lines: [{ sku: 'A' }, { sku: 'B' }] },
+    { id: 'T2', trade: { date: new Date(Date.UTC(2024, 0, 3)), amount: 250.5 }, lines: [] },
+  ];
+
+  test('should write the columns as an Excel table with a totals row', async () => {
+    const workbook = objectsToWorkbook(
+      trades,
+      [
+        { header: 'ID', path: 'id' },
+        { header: 'Date', path: 'trade.date', numFmt: 'yyyy-mm-dd', width: 12 },
+        { header: 'Amount', path: 'trade.amount', numFmt: '#,##0.00', total: 'sum' },
+        { header: 'SKUs', path: 'lines.[].sku', format: (sku) => sku.toLowerCase(), total: 'count' },
+      ],
+      { sheetName: 'Trades', tableName: 'Trades', totalsRow: true }
+    );
+    const loaded = await roundTrip(workbook);
+    expect(workbookToObject(loaded)).toEqual({
+      Trades: [
+        ['ID', 'Date', 'Amount', 'SKUs'],
+        ['T1', new Date(Date.UTC(2024, 0, 2)), 1500, 'a, b'],
+        ['T2', new Date(Date.UTC(2024, 0, 3)), 250.5, null],
+        ['Total', null, 1750.5, 1],
+      ],
+    });
+    const worksheet = loaded.getWorksheet('Trades') as ExcelJS.Worksheet;
+    expect(worksheet.getCell('C4').formula).toBe('SUBTOTAL(109,Trades[Amount])');
+    expect(worksheet.getCell('C2').numFmt).toBe('#,##0.00');
+    expect(worksheet.getColumn(2).width).toBe(12);
+
+    const table = (workbook.getWorksheet('Trades') as any).getTable('Trades');
+    expect(table.table).toMatchObject({ tableRef: 'A1:D4', totalsRow: true, style: { theme: 'TableStyleMedium2' } });
+  });
+
+  test('should default paths to headers and reject repeated headers', () => {
+    const workbook = objectsToWorkbook([{ Name: 'x' }], [{ header: 'Name' }]);
+    expect((workbook.getWorksheet('Sheet1') as ExcelJS.Worksheet).getCell('A2').value).toBe('x');
+    expect(() => objectsToWorkbook([], [{ header: 'A' }, { header: 'A', path: 'b' }])).toThrow(
+      "Duplicate column header 'A'"
+    );
+  });
+});
@@ -1,27 +1,171 @@
 
 import ExcelJS from 'exceljs';
+import compilePath from './compilePath';
+import { cachedToPath } from './toPath';
+import { trimMatrix } from './trimMatrix';
+import { hasWildcard } from './wildcard';
 
 interface WorksheetData {
   [key: string]: any[][];
 }
 
-function createWorkbookFromObject(dataObject: WorksheetData): ExcelJS.Workbook {
+interface CellStyle {
+  font?: Partial<ExcelJS.Font>;
+  fill?: ExcelJS.Fill;
+  border?: Partial<ExcelJS.Borders>;
+  alignment?: Partial<ExcelJS.Alignment>;
+  // Number format, e.g. '#,##0.00' or 'yyyy-mm-dd'
+  numFmt?: string;
+}
+
+// A cell of a sheet spec, instead of a plain value
+interface CellSpec extends CellStyle {
+  value?: any;
+  // Formula with or without the leading '=', and the result shown until Excel recalculates (default: value)
+  formula?: string;
+  result?: any;
+  // Names of styles from the options, applied in order before the style properties of the cell
+  style?: string | string[];
+  // Link target (a URL, or '#Sheet!A1'), value is the text shown, default: the target
+  hyperlink?: string;
+  // Comment shown when hovering over the cell
+  note?: string;
+}
+
+interface ColumnSpec {
+  // In characters, default: the length of the longest value, between 10 and 50
+  width?: number;
+  hidden?: boolean;
+}
+
+interface SheetSpec {
+  // Plain values and cell specs
+  rows: any[][];
+  // By column index
+  columns?: Array<ColumnSpec | undefined>;
+  // Ranges like 'A1:C1'
+  merges?: string[];
+  // Number of top rows and left columns that stay visible when scrolling
+  freeze?: { rows?: number; columns?: number };
+  // Range like 'A1:F1', true: the header row
+  autoFilter?: string | boolean;
+  // Size the columns without a width from their values, default true
+  autoWidth?: boolean;
+}
+
+interface WorkbookData {
+  [key: string]: any[][] | SheetSpec;
+}
+
+interface CreateWorkbookOptions {
+  // Styles reused across cells, referenced by name in the style of cell specs
+  styles?: Record<string, CellStyle>;
+}
+
+// Totals row functions of Excel tables, written as SUBTOTAL formulas
+type TotalsFunction = 'sum' | 'average' | 'count' | 'countNums' | 'min' | 'max' | 'stdDev' | 'var';
+
+interface TableColumn {
+  header: string;
+  // get path of the value, default: the header. The values of wildcard paths ('lines.[].sku') are joined.
+  path?: string;
+  // Converts the value before it is written, called on every value of wildcard paths
+  format?: (value: any, row: any) => any;
+  // Number format, e.g. '#,##0.00' or 'yyyy-mm-dd'
+  numFmt?: string;
+  // In characters, default: the length of the longest value, between 10 and 50
+  width?: number;
+  // Function of the totals row, not available on the first column which holds the totals label
+  total?: TotalsFunction;
+}
+
+interface ObjectsToWorkbookOptions {
+  // Default 'Sheet1'
+  sheetName?: string;
+  // Name used in structured references (Table1[Amount]), no spaces, default 'Table1'
+  tableName?: string;
+  // Default 'TableStyleMedium2'
+  theme?: string;
+  // Add a totals row with the total of each column
+  totalsRow?: boolean;
+  // Default 'Total'
+  totalsLabel?: string;
+  // Separator of the values of wildcard paths, default ', '
+  joiner?: string;
+}
+
+interface WorkbookToObjectOptions {
+  // 'result' (default): the value Excel last calculated, 'formula': the formula text, e.g. '=SUM(A1:A3)'
+  formulas?: 'result' | 'formula';
+  // 'text' (default): rich text and hyperlinks as plain strings, 'value': the ExcelJS cell values
+  richText?: 'text' | 'value';
+  // 'date' (default): JS Dates, 'serial': Excel serial numbers (days since 1899-12-30, or 1904-01-01)
+  dates?: 'date' | 'serial';
+  // Copy the value of merged cells to every cell of the merge, default: top-left cell only
+  fillMerged?: boolean;
+  // Names of the sheets to read, default: all of them
+  sheets?: string[];
+  // Remove the empty rows and columns after the used range, default true
+  trim?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys telling a cell spec from a plain value. ExcelJS values ({ richText }, { text, hyperlink }, { error }...)
+// are written as they are.
+const CELL_SPEC_KEYS = [
+  'value', 'formula', 'result', 'style', 'numFmt', 'font', 'fill', 'border', 'alignment', 'hyperlink', 'note'
+];
+const EXCELJS_VALUE_KEYS = ['richText', 'text', 'error', 'sharedFormula', 'shareType'];
+
+function createWorkbookFromObject(
+  dataObject: WorksheetData | WorkbookData,
+  options: CreateWorkbookOptions = {}
+): ExcelJS.Workbook {
   const workbook = new ExcelJS.Workbook();
+  const styles = options.styles ?? {};
   
   // Iterate through object keys (worksheet names)
   for (const [sheetName, sheetData] of Object.entries(dataObject)) {
     // Create worksheet
     const worksheet = workbook.addWorksheet(sheetName);
+    const spec: SheetSpec = Array.isArray(sheetData) ? { rows: sheetData } : sheetData;
     
-    // Add data to worksheet from 2D array
-    sheetData.forEach(row => {
-      worksheet.addRow(row);
+    // Add data to worksheet from 2D array, cell specs are applied once the row exists
+    (spec.rows ?? []).forEach(rowData => {
+      const cells = Array.isArray(rowData) ? rowData : [];
+      const row = worksheet.addRow(cells.map(value => (isCellSpec(value) ? null : value)));
+      cells.forEach((value, c) => {
+        if (isCellSpec(value)) applyCellSpec(row.getCell(c + 1), value, styles);
+      });
     });
+
+    (spec.merges ?? []).forEach(range => worksheet.mergeCells(range));
+
+    if (spec.freeze) {
+      const { rows = 0, columns = 0 } = spec.freeze;
+      worksheet.views = [{ state: 'frozen', xSplit: columns, ySplit: rows }];
+    }
+
+    if (spec.autoFilter) {
+      // true: the header row, as wide as the data
+      worksheet.autoFilter =
+        spec.autoFilter === true
+          ? { from: { row: 1, column: 1 }, to: { row: 1, column: Math.max(1, worksheet.columnCount) } }
+          : spec.autoFilter;
+    }
     
-    // Auto-adjust column widths
-    worksheet.columns.forEach(column => {
+    // Auto-adjust column widths, unless set by the sheet spec
+    (worksheet.columns ?? []).forEach((column, c) => {
+      const columnSpec = spec.columns?.[c];
+      if (columnSpec?.hidden) column.hidden = true;
+      if (columnSpec?.width !== undefined) {
+        column.width = columnSpec.width;
+        return;
+      }
+      if (spec.autoWidth === false) return;
       let maxLength = 10; // Minimum width
-      column.eachCell({ includeEmpty: true }, cell => {
+      column.eachCell?.({ includeEmpty: true }, cell => {
         const columnLength = cell.value ? cell.value.toString().length : 0;
         maxLength = Math.max(maxLength, columnLength);
       });
@@ -32,13 +176,228 @@ function createWorkbookFromObject(dataObject: WorksheetData): ExcelJS.Workbook {
   return workbook;
 }
 
+function isCellSpec(value: any): value is CellSpec {
+  if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return false;
+  const keys = Object.keys(value);
+  return keys.some(key => CELL_SPEC_KEYS.includes(key)) && !keys.some(key => EXCELJS_VALUE_KEYS.includes(key));
+}
+
+function applyCellSpec(cell: ExcelJS.Cell, spec: CellSpec, styles: Record<string, CellStyle>) {
+  if (spec.formula !== undefined) {
+    const result = spec.result ?? spec.value;
+    cell.value = { formula: spec.formula.replace(/^=/, ''), result } as ExcelJS.CellFormulaValue;
+  } else if (spec.hyperlink !== undefined) {
+    cell.value = { text: String(spec.value ?? spec.hyperlink), hyperlink: spec.hyperlink };
+  } else {
+    cell.value = spec.value ?? null;
+  }
+
+  // Named styles in order, then the properties of the cell itself
+  const named = spec.style === undefined ? [] : Array.isArray(spec.style) ? spec.style : [spec.style];
+  const style = [...named, spec].reduce<CellStyle>((merged, item) => {
+    const resolved = typeof item === 'string' ? styles[item] : item;
+    if (!resolved) throw new Error(`Unknown style '${item}' in cell ${cell.worksheet.name}!${cell.address}`);
+    if (resolved.font !== undefined) merged.font = { ...merged.font, ...resolved.font };
+    if (resolved.fill !== undefined) merged.fill = { ...merged.fill, ...resolved.fill } as ExcelJS.Fill;
+    if (resolved.border !== undefined) merged.border = { ...merged.border, ...resolved.border };
+    if (resolved.alignment !== undefined) merged.alignment = { ...merged.alignment, ...resolved.alignment };
+    if (resolved.numFmt !== undefined) merged.numFmt = resolved.numFmt;
+    return merged;
+  }, {});
+  if (spec.hyperlink !== undefined && !style.font) {
+    style.font = { color: { argb: 'FF0563C1' }, underline: true };
+  }
+  if (style.font !== undefined) cell.font = style.font;
+  if (style.fill !== undefined) cell.fill = style.fill;
+  if (style.border !== undefined) cell.border = style.border;
+  if (style.alignment !== undefined) cell.alignment = style.alignment;
+  if (style.numFmt !== undefined) cell.numFmt = style.numFmt;
+
+  if (spec.note !== undefined) cell.note = spec.note;
+}
+
+// Writes rows as an Excel table (ListObject) with one column per definition, starting at A1
+function objectsToWorkbook(
+  rows: object[],
+  columns: TableColumn[],
+  options: ObjectsToWorkbookOptions = {}
+): ExcelJS.Workbook {
+  const {
+    sheetName = 'Sheet1',
+    tableName = 'Table1',
+    theme = 'TableStyleMedium2',
+    totalsRow = false,
+    totalsLabel = 'Total',
+    joiner = ', '
+  } = options;
+
+  // Excel repairs tables with repeated headers
+  columns.forEach((column, c) => {
+    if (columns.findIndex(other => other.header === column.header) !== c) {
+      throw new Error(`Duplicate column header '${column.header}'`);
+    }
+  });
+
+  const readers = columns.map(column => {
+    const path = column.path ?? column.header;
+    const read = compilePath(path);
+    const format = column.format ?? ((value: any) => value);
+    if (!hasWildcard(cachedToPath(path))) return (row: any) => format(read(row), row);
+    return (row: any) => {
+      const values = (read(row) as any[])
+        .flat(Infinity)
+        .map(value => format(value, row))
+        .filter(value => value !== undefined && value !== null && value !== '');
+      // An empty cell rather than '', which Excel counts as a value
+      return values.length > 0 ? values.join(joiner) : null;
+    };
+  });
+  const data = (Array.isArray(rows) ? rows : []).map(row => readers.map(read => read(row)));
+
+  // The sheet sizes the columns from the values, the table then writes them with its header and styles
+  const workbook = createWorkbookFromObject({
+    [sheetName]: {
+      rows: [columns.map(column => column.header), ...data],
+      columns: columns.map(column => ({ width: column.width }))
+    }
+  });
+  (workbook.getWorksheet(sheetName) as ExcelJS.Worksheet).addTable({
+    name: tableName,
+    ref: 'A1',
+    headerRow: true,
+    totalsRow,
+    style: { theme: theme as ExcelJS.TableStyleProperties['theme'], showRowStripes: true },
+    columns: columns.map((column, c) => ({
+      name: column.header,
+      filterButton: true,
+      style: column.numFmt !== undefined ? { numFmt: column.numFmt } : undefined,
+      ...(c === 0
+        ? { totalsRowLabel: totalsLabel }
+        : {
+            totalsRowFunction: column.total ?? 'none',
+            totalsRowResult: column.total ? totalOf(column.total, data.map(values => values[c])) : undefined
+          })
+    })) as ExcelJS.TableColumnProperties[],
+    // Excel repairs tables without any data row
+    rows: data.length > 0 ? data : [columns.map(() => null)]
+  });
+  return workbook;
+}
+
+// Value shown in the totals row until Excel recalculates
+function totalOf(total: TotalsFunction, values: any[]): number | undefined {
+  const numbers = values.filter(value => typeof value === 'number' && Number.isFinite(value));
+  const sum = numbers.reduce((result, value) => result + value, 0);
+  const mean = sum / numbers.length;
+  const variance = numbers.reduce((result, value) => result + (value - mean) ** 2, 0) / (numbers.length - 1);
+  switch (total) {
+    case 'sum':
+      return sum;
+    case 'average':
+      return numbers.length > 0 ? mean : undefined;
+    case 'count':
+      // Like COUNTA, which counts empty strings
+      return values.filter(value => value !== undefined && value !== null).length;
+    case 'countNums':
+      return numbers.length;
+    case 'min':
+      return numbers.reduce((result, value) => Math.min(result, value), numbers.length > 0 ? Infinity : 0);
+    case 'max':
+      return numbers.reduce((result, value) => Math.max(result, value), numbers.length > 0 ? -Infinity : 0);
+    case 'stdDev':
+      return numbers.length > 1 ? Math.sqrt(variance) : undefined;
+    case 'var':
+      return numbers.length > 1 ? variance : undefined;
+    default:
+      return undefined;
+  }
+}
+
 async function workbookToBuffer(workbook: ExcelJS.Workbook): Promise<Buffer> {
   // Write workbook to buffer
   const buffer = await workbook.xlsx.writeBuffer();
   return buffer;
 }
 
+async function bufferToWorkbook(buffer: Buffer | ArrayBuffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  // ExcelJS reads Node buffers too, but its typings only take array buffers
+  await workbook.xlsx.load(buffer instanceof ArrayBuffer ? buffer : new Uint8Array(buffer).buffer);
+  return workbook;
+}
+
+// The reverse of createWorkbookFromObject: one matrix per worksheet, in workbook order.
+// Empty cells are null, error cells their error text ('#N/A').
+function workbookToObject(workbook: ExcelJS.Workbook, options: WorkbookToObjectOptions = {}): WorksheetData {
+  const { sheets, trim = true } = options;
+  const dataObject: WorksheetData = {};
+
+  workbook.eachSheet(worksheet => {
+    if (sheets && !sheets.includes(worksheet.name)) return;
+
+    // columnCount ignores styled cells without a value, cellCount is the last cell of each row.
+    // findRow and findCell, unlike getRow and getCell, do not create what they look up.
+    const rows = Array.from({ length: worksheet.rowCount }, (_value, r) => worksheet.findRow(r + 1));
+    const width = rows.reduce((max, row) => Math.max(max, row?.cellCount ?? 0), worksheet.columnCount);
+    const matrix = rows.map(row =>
+      Array.from({ length: width }, (_value, c) => {
+        const cell = row?.findCell(c + 1);
+        return cell ? readCell(workbook, cell, options) : null;
+      })
+    );
+    dataObject[worksheet.name] = trim ? trimMatrix(matrix, { top: false, left: false }).matrix : matrix;
+  });
+
+  return dataObject;
+}
+
+function readCell(workbook: ExcelJS.Workbook, cell: ExcelJS.Cell, options: WorkbookToObjectOptions): any {
+  // Merged cells other than the top-left one report the value of the top-left cell
+  if (cell.type === ExcelJS.ValueType.Merge && !options.fillMerged) return null;
+  const source = cell.type === ExcelJS.ValueType.Merge ? cell.master : cell;
+
+  const value: any = source.value;
+  if (value === null || value === undefined) return null;
+  if (source.type === ExcelJS.ValueType.Formula) {
+    return options.formulas === 'formula' ? `=${source.formula}` : readValue(workbook, value.result, options);
+  }
+  return readValue(workbook, value, options);
+}
+
+function readValue(workbook: ExcelJS.Workbook, value: any, options: WorkbookToObjectOptions): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    if (options.dates !== 'serial') return value;
+    const epoch = workbook.properties.date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+    return (value.getTime() - epoch) / DAY_MS;
+  }
+  if (typeof value !== 'object') return value;
+  if (value.error !== undefined) return value.error;
+  if (options.richText === 'value') return value;
+  if (Array.isArray(value.richText)) return value.richText.map((run: ExcelJS.RichText) => run.text).join('');
+  // Hyperlinks, whose text can itself be rich text
+  if (value.hyperlink !== undefined) return readValue(workbook, value.text, options);
+  return value;
+}
+
 export {
+  bufferToWorkbook,
   createWorkbookFromObject,
-  workbookToBuffer
+  objectsToWorkbook,
+  workbookToBuffer,
+  workbookToObject
+};
+
+export type {
+  CellSpec,
+  CellStyle,
+  ColumnSpec,
+  CreateWorkbookOptions,
+  ObjectsToWorkbookOptions,
+  SheetSpec,
+  TableColumn,
+  TotalsFunction,
+  WorkbookData,
+  WorkbookToObjectOptions,
+  WorksheetData
 };
@@ -0,0 +1,75 @@
+import { quoteSheetName, renameSheetInFormula, renameSheetsInFormula, tokenizeFormula } from './formulaTokenizer';
+
+describe('tokenizeFormula', () => {
+  test('should split strings, sheet prefixes, errors and structured references', () => {
+    const formula = `=IF('Bob''s Data'!A1="Sheet1!A1",Sheet1:Sheet3!B2,#REF!)+SUM(Table1[[#This Row],[Amount]])`;
+    const tokens = tokenizeFormula(formula);
+    expect(tokens.map(({ text }) => text).join('')).toBe(formula);
+    expect(tokens.filter(({ type }) => type !== 'other')).toEqual([
+      { type: 'sheet', text: "'Bob''s Data'!", sheets: ["Bob's Data"] },
+      { type: 'string', text: '"Sheet1!A1"' },
+      { type: 'sheet', text: 'Sheet1:Sheet3!', sheets: ['Sheet1', 'Sheet3'] },
+      { type: 'error', text: '#REF!' },
+      { type: 'structured', text: '[[#This Row],[Amount]]' },
+    ]);
+  });
+
+  test('should read external references and quoted 3D references', () => {
+    expect(tokenizeFormula("[1]Sheet1!A1+'[Book 2.xlsx]Jan:Mar'!B1").filter(({ type }) => type === 'sheet')).toEqual([
+      { type: 'sheet', text: '[1]Sheet1!', sheets: ['Sheet1'], workbook: '1' },
+      { type: 'sheet', text: "'[Book 2.xlsx]Jan:Mar'!", sheets: ['Jan', 'Mar'], workbook: 'Book 2.xlsx' },
+    ]);
+  });
+
+  test('should keep unclosed strings and names followed by other text', () => {
+    expect(tokenizeFormula('"abc')).toEqual([{ type: 'string', text: '"abc' }]);
+    expect(tokenizeFormula('A1:B2*Rate')).toEqual([{ type: 'other', text: 'A1:B2*Rate' }]);
+  });
+});
+
+describe('quoteSheetName', () => {
+  test('should quote names Excel cannot read unquoted', () => {
+    expect(quoteSheetName('Sheet1')).toBe('Sheet1');
+    expect(quoteSheetName('Données_2024')).toBe('Données_2024');
+    expect(quoteSheetName('My Sheet')).toBe("'My Sheet'");
+    expect(quoteSheetName("Bob's")).toBe("'Bob''s'");
+    expect(quoteSheetName('2024')).toBe("'2024'");
+    expect(quoteSheetName('A1')).toBe("'A1'");
+    expect(quoteSheetName('R1C1')).toBe("'R1C1'");
+    expect(quoteSheetName('a-b')).toBe("'a-b'");
+  });
+});
+
+describe('renameSheetInFormula', () => {
+  test('should rename quoted and unquoted references, quoting only when needed', () => {
+    expect(renameSheetInFormula("Sheet1!A1+'Sheet1'!B1+sheet1!C1", 'Sheet1', 'Data')).toBe('Data!A1+Data!B1+Data!C1');
+    expect(renameSheetInFormula('SUM(Sheet1!A1:A3)', 'Sheet1', "Bob's (old)")).toBe("SUM('Bob''s (old)'!A1:A3)");
+    expect(renameSheetInFormula("'Bob''s'!A1", "Bob's", 'Bob')).toBe('Bob!A1');
+    expect(renameSheetInFormula("'a.b+c'!A1", 'a.b+c', 'x')).toBe('x!A1');
+  });
+
+  test('should leave string literals, longer names and other workbooks alone', () => {
+    expect(renameSheetInFormula('Sheet10!A1&"Sheet1!A1"&[1]Sheet1!A1&MySheet1!A1', 'Sheet1', 'X')).toBe(
+      'Sheet10!A1&"Sheet1!A1"&[1]Sheet1!A1&MySheet1!A1'
+    );
+  });
+
+  test('should rename either end of 3D references', () => {
+    expect(renameSheetInFormula('SUM(Sheet1:Sheet3!A1)', 'Sheet1', 'Jan')).toBe('SUM(Jan:Sheet3!A1)');
+    expect(renameSheetInFormula('SUM(Sheet1:Sheet3!A1)', 'Sheet3', 'Mar 2024')).toBe("SUM('Sheet1:Mar 2024'!A1)");
+  });
+
+  test('should handle sheet names with regex metacharacters', () => {
+    expect(renameSheetInFormula("'Q1 (v2)+$'!A1+Qx!A1", 'Q1 (v2)+$', 'Quarter')).toBe('Quarter!A1+Qx!A1');
+    expect(renameSheetInFormula("'Q1 (v2)+$'!A1", 'Q1 (v2)+$', 'Q1')).toBe("'Q1'!A1");
+  });
+});
+
+describe('renameSheetsInFormula', () => {
+  test('should rename every sheet once', () => {
+    const names: Record<string, string> = { Ann: 'Bob', Bob: 'Cid' };
+    expect(renameSheetsInFormula('Ann!A1+Bob!A1+Ann:Bob!A1+Dan!A1', (sheet) => names[sheet])).toBe(
+      'Bob!A1+Cid!A1+Bob:Cid!A1+Dan!A1'
+    );
+  });
+});
@@ -0,0 +1,167 @@
+// Token types of an Excel formula, enough to find sheet references without touching anything else:
+// - string: a string literal, "..." with "" for a quote
+// - sheet: a sheet prefix with its '!', 'Sheet1!', 'Bob''s Data'!, 3D Sheet1:Sheet3! or external [1]Sheet1!
+// - error: an error literal (#REF!, #N/A...), whose '!' is not a sheet prefix
+// - structured: a bracketed part of a structured reference, Table1[[#This Row],[Amount]]
+// - other: everything else (references, names, functions, numbers, operators, spaces), as written
+export type FormulaTokenType = 'string' | 'sheet' | 'error' | 'structured' | 'other';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  // Source text, joining the texts of all the tokens gives back the formula
+  text: string;
+  // Sheet tokens: the sheet name, or the first and last sheets of a 3D reference, unquoted and unescaped
+  sheets?: string[];
+  // Sheet tokens of external references: the workbook between brackets ('1' for [1]Sheet1!)
+  workbook?: string;
+}
+
+const ERROR_LITERAL =
+  /^#(NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|GETTING_DATA|SPILL!|CALC!|FIELD!|BLOCKED!|CONNECT!|BUSY!|UNKNOWN!)/i;
+// Characters of unquoted sheet names, defined names, functions and A1 references
+const NAME_CHAR = /[\w.\\\u00A1-\uFFFF]/;
+// Unquoted sheet names look like names and not like A1 or R1C1 references
+const PLAIN_SHEET_NAME = /^[A-Za-z_\u00A1-\uFFFF][\w.\u00A1-\uFFFF]*$/;
+const A1_REFERENCE = /^[A-Za-z]{1,3}\d+$/;
+const R1C1_REFERENCE = /^(R\d*)?(C\d*)?$/i;
+
+// Splits a formula (with or without its leading '=') into tokens
+export function tokenizeFormula(formula: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let other = '';
+  const push = (token: FormulaToken) => {
+    if (other !== '') tokens.push({ type: 'other', text: other });
+    other = '';
+    tokens.push(token);
+  };
+
+  let i = 0;
+  while (i < formula.length) {
+    const char = formula[i];
+    if (char === '"') {
+      const end = closingQuote(formula, i, '"');
+      push({ type: 'string', text: formula.slice(i, end + 1) });
+      i = end + 1;
+    } else if (char === "'") {
+      // Quoted sheet prefix, possibly 3D or external: '[Book.xlsx]Sheet 1:Sheet 3'!
+      const end = closingQuote(formula, i, "'");
+      const text = formula.slice(i, end + 1);
+      if (formula[end + 1] === '!') {
+        push({ type: 'sheet', text: `${text}!`, ...parsePrefix(unquote(text)) });
+        i = end + 2;
+      } else {
+        other += text;
+        i = end + 1;
+      }
+    } else if (char === '#' && ERROR_LITERAL.test(formula.slice(i))) {
+      const [text] = formula.slice(i).match(ERROR_LITERAL) as RegExpMatchArray;
+      push({ type: 'error', text });
+      i += text.length;
+    } else if (char === '[' && !isWorkbookPrefix(formula, i)) {
+      const end = closingBracket(formula, i);
+      push({ type: 'structured', text: formula.slice(i, end + 1) });
+      i = end + 1;
+    } else if (char === '[' || NAME_CHAR.test(char)) {
+      const prefix = unquotedPrefix(formula, i);
+      if (prefix) {
+        push({ type: 'sheet', text: prefix, ...parsePrefix(prefix.slice(0, -1)) });
+        i += prefix.length;
+      } else {
+        // The whole name, so that a later part of it is not read as a sheet prefix
+        let end = i + 1;
+        while (end < formula.length && NAME_CHAR.test(formula[end])) end++;
+        other += formula.slice(i, end);
+        i = end;
+      }
+    } else {
+      other += char;
+      i++;
+    }
+  }
+  if (other !== '') tokens.push({ type: 'other', text: other });
+  return tokens;
+}
+
+// Writes a sheet name the way Excel does in references: as it is when it looks like a name, quoted otherwise
+export function quoteSheetName(name: string): string {
+  const plain = PLAIN_SHEET_NAME.test(name) && !A1_REFERENCE.test(name) && !R1C1_REFERENCE.test(name);
+  return plain ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+// Renames a sheet in the references of a formula. Sheet names compare case-insensitively like in Excel;
+// string literals, external references and other prefixes are left as written.
+export function renameSheetInFormula(formula: string, oldName: string, newName: string): string {
+  const old = oldName.toLowerCase();
+  return renameSheetsInFormula(formula, (sheet) => (sheet.toLowerCase() === old ? newName : undefined));
+}
+
+// Renames several sheets at once, rename returns the new name of a sheet or undefined to keep it.
+// Each name is renamed once: with { Ann: 'Bob', Bob: 'Cid' }, Ann becomes Bob and not Cid.
+export function renameSheetsInFormula(formula: string, rename: (sheet: string) => string | undefined): string {
+  return tokenizeFormula(formula)
+    .map((token) => {
+      if (token.type !== 'sheet' || token.workbook !== undefined || !token.sheets) return token.text;
+      const sheets = token.sheets.map((sheet) => rename(sheet) ?? sheet);
+      return sheets.every((sheet, i) => sheet === token.sheets?.[i]) ? token.text : `${formatPrefix(sheets)}!`;
+    })
+    .join('');
+}
+
+// 'Sheet1' or 'Sheet1:Sheet3', quoted as a whole when one of the names needs it
+function formatPrefix(sheets: string[]): string {
+  const quoted = sheets.some((sheet) => quoteSheetName(sheet) !== sheet);
+  return quoted ? `'${sheets.join(':').replace(/'/g, "''")}'` : sheets.join(':');
+}
+
+// Index of the quote closing the one at start, doubled quotes being escaped ones. The end of the formula
+// for unclosed quotes.
+function closingQuote(formula: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < formula.length) {
+    if (formula[i] === quote) {
+      if (formula[i + 1] !== quote) return i;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return formula.length - 1;
+}
+
+// Index of the bracket closing the one at start, with nested brackets and ' escaping the next character
+function closingBracket(formula: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < formula.length; i++) {
+    if (formula[i] === "'") {
+      i++;
+    } else if (formula[i] === '[') {
+      depth++;
+    } else if (formula[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return formula.length - 1;
+}
+
+// [1]Sheet1! or [Book.xlsx]Sheet1!, as opposed to the brackets of a structured reference
+function isWorkbookPrefix(formula: string, start: number): boolean {
+  return unquotedPrefix(formula, start) !== undefined;
+}
+
+// The unquoted sheet prefix starting at start, with its '!': Sheet1!, Sheet1:Sheet3!, [1]Sheet1!
+function unquotedPrefix(formula: string, start: number): string | undefined {
+  const match = formula.slice(start).match(/^(\[[^\]]*\])?[\w.\u00A1-\uFFFF]+(:[\w.\u00A1-\uFFFF]+)?!/);
+  // A name starting right after another one, like the 'B1' of 'A1B1!', is not a prefix
+  return match && (start === 0 || !NAME_CHAR.test(formula[start - 1])) ? match[0] : undefined;
+}
+
+function unquote(text: string): string {
+  return text.slice(1, -1).replace(/''/g, "'");
+}
+
+function parsePrefix(prefix: string): { sheets: string[]; workbook?: string } {
+  const match = prefix.match(/^\[([^\]]*)\](.*)$/);
+  const sheets = (match ? match[2] : prefix).split(':');
+  return match ? { sheets, workbook: match[1] } : { sheets };
+}
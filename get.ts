@@ -1,14 +1,32 @@
-import toPath from './toPath.js';
+import { cachedToPath } from './toPath.js';
+import type { GetResult, ValidPath } from './pathTypes.js';
+import { RECURSIVE_DESCENT, childEntries, hasWildcard, isWildcard, matchWildcard } from './wildcard.js';
 
+/**
+ * Reads the value at a path. Wildcard segments fan out over arrays and return nested arrays of values.
+ * For a path literal the return type is inferred from the object type, and a path that does not exist
+ * on the object type is a type error.
+ */
+function get<T extends object, P extends string, D = undefined>(
+  object: T | null | undefined,
+  path: P & ValidPath<T, P>,
+  defaultValue?: D
+): GetResult<T, P, D>;
+function get<T extends object, D = any>(object: T | null | undefined, path: string[], defaultValue?: D): any;
 function get<T extends object, D = any>(
   object: T | null | undefined,
   path: string | string[],
   defaultValue?: D
-): any[] | D {
-  const keys = toPath(path);
+): any {
+  return getByKeys(object, cachedToPath(path), defaultValue);
+}
 
-  // Handle wildcard paths
-  if (keys.includes('[]')) {
+/**
+ * get for keys already parsed by superToPath.
+ */
+function getByKeys(object: any, keys: string[], defaultValue?: any): any {
+  // Handle wildcard paths ('[]', slices, predicates and '**')
+  if (hasWildcard(keys)) {
     const result = processWildcardGet(object, keys, 0);
     return result !== undefined && result.length > 0 ? result : (defaultValue !== undefined ? defaultValue : []);
   }
@@ -28,7 +46,21 @@ function processWildcardGet(current: any, keys: string[], index: number): any[]
   }
 
   const key = keys[index];
-  if (key !== '[]') {
+  if (key === RECURSIVE_DESCENT) {
+    // Match the rest of the path at this node and at every depth below it, flattened in document order
+    const result: any[] = [];
+    const visit = (node: any) => {
+      const match = index === keys.length - 1 ? [node] : processWildcardGet(node, keys, index + 1);
+      if (match !== undefined) {
+        result.push(...match);
+      }
+      childEntries(node).forEach(([, child]) => visit(child));
+    };
+    visit(current);
+    return result.length > 0 ? result : undefined;
+  }
+
+  if (!isWildcard(key)) {
     // Non-wildcard key
     if (index === keys.length - 1) {
       // Last key, return value if defined
@@ -43,12 +75,19 @@ function processWildcardGet(current: any, keys: string[], index: number): any[]
     return undefined;
   }
 
-  // Process each array element
-  const result = current
-    .map((item: any) => processWildcardGet(item, keys, index + 1))
+  const indices = matchWildcard(current, key);
+  if (index === keys.length - 1) {
+    // Last key, return the matched elements
+    return indices.length > 0 ? indices.map((i) => current[i]) : undefined;
+  }
+
+  // Process each matched array element
+  const result = indices
+    .map((i) => processWildcardGet(current[i], keys, index + 1))
     .filter((item: any) => item !== undefined);
 
   return result.length > 0 ? result : undefined;
 }
 
+export { getByKeys };
 export default get;
@@ -0,0 +1,69 @@
+import getEntries, { paths } from './getEntries';
+
+const testObject = {
+  a: [
+    { b: [{ c: 42 }, { c: 43 }] },
+    { b: [{ c: 99 }, {}] },
+  ],
+  x: 100,
+  'odd.key': { list: [], when: new Date(0) },
+};
+
+describe('getEntries', () => {
+  test('should resolve wildcards to concrete paths', () => {
+    expect(getEntries(testObject, 'a.[].b.[].c')).toEqual([
+      { path: ['a', 0, 'b', 0, 'c'], pathString: 'a[0].b[0].c', value: 42 },
+      { path: ['a', 0, 'b', 1, 'c'], pathString: 'a[0].b[1].c', value: 43 },
+      { path: ['a', 1, 'b', 0, 'c'], pathString: 'a[1].b[0].c', value: 99 },
+    ]);
+  });
+
+  test('should resolve standard paths, slices and predicates', () => {
+    expect(getEntries(testObject, 'a[1].b[0].c')).toEqual([
+      { path: ['a', 1, 'b', 0, 'c'], pathString: 'a[1].b[0].c', value: 99 },
+    ]);
+    expect(getEntries(testObject, 'a.[-1:].b.[?c>50].c').map((entry) => entry.pathString)).toEqual(['a[1].b[0].c']);
+  });
+
+  test('should resolve recursive descent', () => {
+    expect(getEntries(testObject, '**.c').map((entry) => entry.pathString)).toEqual([
+      'a[0].b[0].c',
+      'a[0].b[1].c',
+      'a[1].b[0].c',
+    ]);
+  });
+
+  test('should quote keys that are not identifiers', () => {
+    expect(getEntries(testObject, '["odd.key"].list')).toEqual([
+      { path: ['odd.key', 'list'], pathString: '["odd.key"].list', value: [] },
+    ]);
+  });
+
+  test('should return no entries when nothing matches', () => {
+    expect(getEntries(testObject, 'z.[].y')).toEqual([]);
+    expect(getEntries(null, 'a')).toEqual([]);
+  });
+});
+
+describe('paths', () => {
+  test('should list every leaf', () => {
+    expect(paths(testObject).map((entry) => entry.pathString)).toEqual([
+      'a[0].b[0].c',
+      'a[0].b[1].c',
+      'a[1].b[0].c',
+      'a[1].b[1]',
+      'x',
+      '["odd.key"].list',
+      '["odd.key"].when',
+    ]);
+  });
+
+  test('should keep leaf values', () => {
+    expect(paths({ a: { b: null } })).toEqual([{ path: ['a', 'b'], pathString: 'a.b', value: null }]);
+  });
+
+  test('should return no entries for empty input', () => {
+    expect(paths({})).toEqual([]);
+    expect(paths(undefined)).toEqual([]);
+  });
+});
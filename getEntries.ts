@@ -0,0 +1,92 @@
+import stringifyPath from './stringifyPath.js';
+import { cachedToPath } from './toPath.js';
+import { RECURSIVE_DESCENT, childEntries, isWildcard, matchWildcard } from './wildcard.js';
+
+type PathKey = string | number;
+
+interface PathEntry {
+  // Concrete keys, array indexes are numbers: ['a', 0, 'b', 1, 'c']
+  path: PathKey[];
+  // Same path as a string, see stringifyPath: 'a[0].b[1].c'
+  pathString: string;
+  value: any;
+}
+
+/**
+ * Like get, but resolves every wildcard to the concrete location of each match instead of flattening values.
+ * @param object The source object.
+ * @param path The path string (e.g., 'a.[].b.[].c') or array of keys.
+ * @returns One entry per matched value (undefined values are skipped), in document order.
+ */
+function getEntries<T extends object>(object: T | null | undefined, path: string | string[]): PathEntry[] {
+  const keys = cachedToPath(path);
+  const entries: PathEntry[] = [];
+  if (object != null) {
+    collectEntries(object, keys, 0, [], entries);
+  }
+  return entries;
+}
+
+/**
+ * Lists every leaf of an object: primitives, null, empty arrays and objects, and anything that is not
+ * a plain object or array (dates, class instances).
+ * @param object The source object.
+ * @returns One entry per leaf, in document order.
+ */
+function paths<T extends object>(object: T | null | undefined): PathEntry[] {
+  const entries: PathEntry[] = [];
+  const visit = (value: any, trail: PathKey[]) => {
+    const children = childEntries(value);
+    if (children.length === 0) {
+      if (trail.length > 0) {
+        entries.push(toEntry(trail, value));
+      }
+      return;
+    }
+    children.forEach(([key, child]) => visit(child, [...trail, key]));
+  };
+  if (object != null) {
+    visit(object, []);
+  }
+  return entries;
+}
+
+function collectEntries(current: any, keys: string[], index: number, trail: PathKey[], entries: PathEntry[]): void {
+  if (index >= keys.length) {
+    if (current !== undefined) {
+      entries.push(toEntry(trail, current));
+    }
+    return;
+  }
+  if (current == null) {
+    return;
+  }
+
+  const key = keys[index];
+  if (key === RECURSIVE_DESCENT) {
+    // Match the rest of the path at this node and at every depth below it
+    collectEntries(current, keys, index + 1, trail, entries);
+    childEntries(current).forEach(([childKey, child]) => {
+      collectEntries(child, keys, index, [...trail, childKey], entries);
+    });
+    return;
+  }
+
+  if (isWildcard(key)) {
+    matchWildcard(current, key).forEach((i) => {
+      collectEntries(current[i], keys, index + 1, [...trail, i], entries);
+    });
+    return;
+  }
+
+  const concreteKey = Array.isArray(current) && /^\d+$/.test(key) ? Number(key) : key;
+  collectEntries(current[key], keys, index + 1, [...trail, concreteKey], entries);
+}
+
+function toEntry(path: PathKey[], value: any): PathEntry {
+  return { path, pathString: stringifyPath(path), value };
+}
+
+export type { PathEntry, PathKey };
+export { paths };
+export default getEntries;
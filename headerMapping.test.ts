@@ -0,0 +1,144 @@
+import { matrixToObjectArray } from './matrixUtils';
+import {
+  applyHeaderMapping,
+  FieldDefinitions,
+  formatHeaderMapping,
+  mapHeaders,
+  normalizeHeader,
+  similarity,
+} from './headerMapping';
+
+const fields: FieldDefinitions = {
+  tradeDate: { synonyms: ['Deal Date'], required: true },
+  settleDate: { synonyms: ['Value Date'] },
+  amount: { synonyms: ['Notional', 'Qty'], required: true },
+  counterparty: { synonyms: ['Cpty'], required: true },
+  id: { synonyms: ['Trade ID', 'Ref'] },
+};
+
+describe('normalizeHeader', () => {
+  test('should normalize case, spacing, punctuation and camel case', () => {
+    ['Trade Date', 'trade_date', ' TRADE-DATE ', 'TradeDate', 'tradeDate', 'Tradé  Date:'].forEach((header) =>
+      expect(normalizeHeader(header)).toBe('trade date')
+    );
+    expect(normalizeHeader('TradeID')).toBe('trade id');
+    expect(normalizeHeader('IDNumber')).toBe('id number');
+  });
+
+  test('should keep letters and digits of non-Latin scripts', () => {
+    expect(normalizeHeader('Дата_сделки')).toBe('дата сделки');
+    expect(normalizeHeader('Δείκτης')).toBe('δεικτης');
+    // Kana with a voiced sound mark, which NFKD splits into a letter and a combining mark
+    expect(normalizeHeader(' データ (2024) ')).toBe('データ 2024');
+  });
+});
+
+describe('similarity', () => {
+  test('should be 1 for equal strings and favour common prefixes', () => {
+    expect(similarity('abc', 'abc')).toBe(1);
+    expect(similarity('abc', '')).toBe(0);
+    expect(similarity('tradedt', 'tradedate')).toBeGreaterThan(0.9);
+    expect(similarity('tradedt', 'tradedate')).toBeGreaterThan(similarity('tradedt', 'settledate'));
+  });
+});
+
+describe('mapHeaders', () => {
+  test('should match field keys, synonyms and similar names', () => {
+    const mapping = mapHeaders(['Trade_Date', 'cpty', 'Notional', 'Broker', 'SettleDt'], fields);
+    expect(mapping.matched.map(({ header, field, column, method }) => [header, field, column, method])).toEqual([
+      ['Trade_Date', 'tradeDate', 'A', 'exact'],
+      ['cpty', 'counterparty', 'B', 'synonym'],
+      ['Notional', 'amount', 'C', 'synonym'],
+      ['SettleDt', 'settleDate', 'E', 'similar'],
+    ]);
+    expect(mapping.matched[3].score).toBeGreaterThan(0.85);
+    expect(mapping.unknown).toEqual([{ header: 'Broker', index: 3, column: 'D', candidates: [] }]);
+    expect(mapping.ambiguous).toEqual([]);
+    expect(mapping.missing).toEqual([]);
+    expect(mapping.fields).toEqual(['tradeDate', 'counterparty', 'amount', undefined, 'settleDate']);
+  });
+
+  test('should report missing required fields and skip blank headers', () => {
+    const mapping = mapHeaders(['Deal Date', null, ' ', 'Ref'], fields);
+    expect(mapping.fields).toEqual(['tradeDate', undefined, undefined, 'id']);
+    expect(mapping.unknown).toEqual([]);
+    expect(mapping.missing).toEqual(['amount', 'counterparty']);
+  });
+
+  test('should report headers naming an already matched field', () => {
+    const mapping = mapHeaders(['Qty', 'Amount', 'Notional'], fields);
+    expect(mapping.matched.map(({ header, field }) => [header, field])).toEqual([['Amount', 'amount']]);
+    expect(mapping.ambiguous.map(({ header, candidates }) => [header, candidates])).toEqual([
+      ['Qty', [{ field: 'amount', score: 1 }]],
+      ['Notional', [{ field: 'amount', score: 1 }]],
+    ]);
+  });
+
+  test('should report headers close to several fields as ambiguous', () => {
+    const mapping = mapHeaders(['Dates'], { startDate: {}, endDate: {}, dates: { synonyms: ['Date'] } });
+    expect(mapping.fields).toEqual(['dates']);
+    const close = mapHeaders(['Date'], { dateA: {}, dateB: {} }, { threshold: 0.8 });
+    expect(close.ambiguous).toEqual([
+      {
+        header: 'Date',
+        index: 0,
+        column: 'A',
+        candidates: [
+          { field: 'dateA', score: expect.any(Number) },
+          { field: 'dateB', score: expect.any(Number) },
+        ],
+      },
+    ]);
+  });
+
+  test('should give a field claimed by similarity to the closest header', () => {
+    const mapping = mapHeaders(['Countrparty', 'Counterparty Name'], { counterparty: {} });
+    expect(mapping.matched.map(({ header }) => header)).toEqual(['Countrparty']);
+    expect(mapping.ambiguous.map(({ header, candidates }) => [header, candidates.map(({ field }) => field)])).toEqual(
+      [['Counterparty Name', ['counterparty']]]
+    );
+  });
+
+  test('should use the threshold and normalize options', () => {
+    expect(mapHeaders(['SettleDt'], fields, { threshold: 0.99 }).unknown.map(({ header }) => header)).toEqual([
+      'SettleDt',
+    ]);
+    const upper = mapHeaders(['AMOUNT'], { amount: {} }, { normalize: (name) => name });
+    expect(upper.matched).toEqual([]);
+  });
+});
+
+describe('applyHeaderMapping', () => {
+  const matrix = [
+    ['Trade Date', 'Comment', 'Notional'],
+    ['2024-01-02', 'x', 10],
+    ['2024-01-03', 'y', 20],
+  ];
+
+  test('should rename the header row and drop unmatched columns', () => {
+    const mapping = mapHeaders(matrix[0], fields);
+    expect(matrixToObjectArray(applyHeaderMapping(matrix, mapping))).toEqual([
+      { tradeDate: '2024-01-02', amount: 10 },
+      { tradeDate: '2024-01-03', amount: 20 },
+    ]);
+    expect(applyHeaderMapping(matrix, mapping, { keepUnmatched: true })[0]).toEqual([
+      'tradeDate',
+      'Comment',
+      'amount',
+    ]);
+  });
+});
+
+describe('formatHeaderMapping', () => {
+  test('should describe every problem', () => {
+    const headers = ['Amount', 'Qty', 'Date', 'Misc'];
+    const mapping = mapHeaders(headers, { ...fields, dateA: {}, dateB: {} }, { threshold: 0.8 });
+    expect(formatHeaderMapping(mapping)).toEqual([
+      'Missing required column for tradeDate',
+      'Missing required column for counterparty',
+      'Column B "Qty": matches amount, already mapped to column A',
+      'Column C "Date": could be dateA or dateB',
+      'Column D "Misc": unknown column',
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import { columnLetter } from './matrixUtils';
+import { isEmptyValue } from './trimMatrix';
+
+export interface FieldDefinition {
+  // Other names of the column, the field key itself always matches: tradeDate matches 'Trade Date'
+  synonyms?: string[];
+  // Reported as missing when no column maps to the field
+  required?: boolean;
+}
+
+export type FieldDefinitions = Record<string, FieldDefinition>;
+
+export interface HeaderMappingOptions {
+  // Minimum similarity (0 to 1) of headers matched by scoring, default 0.85
+  threshold?: number;
+  // Headers scoring within this margin of their best field are ambiguous, default 0.02
+  margin?: number;
+  // Turns a header or a field name into the text compared, default: normalizeHeader
+  normalize?: (name: string) => string;
+}
+
+export interface FieldScore {
+  field: string;
+  score: number;
+}
+
+export interface HeaderMatch extends FieldScore {
+  header: string;
+  // 0-based index and spreadsheet letter of the column
+  index: number;
+  column: string;
+  // 'exact': the field key, 'synonym': one of its synonyms, 'similar': the similarity score
+  method: 'exact' | 'synonym' | 'similar';
+}
+
+export interface UnmatchedHeader {
+  header: string;
+  index: number;
+  column: string;
+  // Fields the header could be, best first. For a header matching a field already matched by another
+  // column, that field only.
+  candidates: FieldScore[];
+}
+
+export interface HeaderMapping {
+  matched: HeaderMatch[];
+  ambiguous: UnmatchedHeader[];
+  // Non-blank headers matching no field (their candidates are empty)
+  unknown: UnmatchedHeader[];
+  // Required fields without a column
+  missing: string[];
+  // Field of every column, undefined for blank, ambiguous and unknown headers
+  fields: Array<string | undefined>;
+}
+
+export interface ApplyHeaderMappingOptions {
+  // Keep the columns without a field under their original header, default: drop them
+  keepUnmatched?: boolean;
+}
+
+const DEFAULT_THRESHOLD = 0.85;
+const DEFAULT_MARGIN = 0.02;
+
+// 'Trade_Date', 'trade-date ', 'TradeDate' and 'TRADE DATE' → 'trade date'. Accents are removed, letters and
+// digits of every script are kept ('Дата_сделки' → 'дата сделки'), with their other marks ('データ').
+export function normalizeHeader(name: string): string {
+  return String(name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim()
+    .normalize('NFC');
+}
+
+// Jaro-Winkler similarity: 1 for equal strings, favours common prefixes so that abbreviations ('TradeDt')
+// score high against the full name
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched: boolean[] = [];
+  const bMatched: boolean[] = [];
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Maps the headers of a sheet to canonical fields, before converting it: headers equal to a field key once
+// normalized first, then headers equal to a synonym, then the other headers by similarity to the free fields.
+// A field is mapped to one column at most, the report says what to fix before the import.
+export function mapHeaders(
+  headers: any[],
+  fields: FieldDefinitions,
+  options: HeaderMappingOptions = {}
+): HeaderMapping {
+  const { threshold = DEFAULT_THRESHOLD, margin = DEFAULT_MARGIN, normalize = normalizeHeader } = options;
+  const compact = (name: string) => normalize(name).replace(/\s+/g, '');
+  const names = Object.entries(fields ?? {}).map(([field, definition]) => ({
+    field,
+    exact: compact(field),
+    synonyms: (definition.synonyms ?? []).map(compact),
+  }));
+
+  const columns = (Array.isArray(headers) ? headers : [])
+    .map((header, index) => ({ header: isEmptyValue(header) ? '' : String(header), index }))
+    .filter(({ header }) => header !== '')
+    .map((column) => ({ ...column, name: compact(column.header) }));
+
+  const result: HeaderMapping = { matched: [], ambiguous: [], unknown: [], missing: [], fields: [] };
+  const matchedBy = new Map<string, HeaderMatch>();
+  const match = (column: (typeof columns)[number], field: string, score: number, method: HeaderMatch['method']) => {
+    const { header, index } = column;
+    const matched = { field, score, header, index, column: columnLetter(index), method };
+    matchedBy.set(field, matched);
+    result.matched.push(matched);
+  };
+  const reject = (column: (typeof columns)[number], candidates: FieldScore[]) => {
+    const unmatched = { header: column.header, index: column.index, column: columnLetter(column.index), candidates };
+    (candidates.length > 0 ? result.ambiguous : result.unknown).push(unmatched);
+  };
+
+  // Field keys, then synonyms, in column order: a field named by two columns goes to the first one
+  const byName = (list: typeof columns, method: 'exact' | 'synonym') =>
+    list.filter((column) => {
+      const found = names.filter(({ exact, synonyms }) =>
+        method === 'exact' ? exact === column.name : synonyms.includes(column.name)
+      );
+      if (found.length === 0) return true;
+      if (found.length > 1) {
+        reject(column, found.map(({ field }) => ({ field, score: 1 })));
+      } else if (matchedBy.has(found[0].field)) {
+        reject(column, [{ field: found[0].field, score: 1 }]);
+      } else {
+        match(column, found[0].field, 1, method);
+      }
+      return false;
+    });
+  const remaining = byName(byName(columns, 'exact'), 'synonym');
+
+  // Similar names, among the fields still free: the best score wins a field claimed by several columns
+  const scored = remaining.map((column) => {
+    const candidates = names
+      .filter(({ field }) => !matchedBy.has(field))
+      .map(({ field, exact, synonyms }) => ({
+        field,
+        score: Math.max(...[exact, ...synonyms].map((name) => similarity(column.name, name))),
+      }))
+      .filter(({ score }) => score >= threshold)
+      .sort((a, b) => b.score - a.score);
+    return { column, candidates };
+  });
+  const isAmbiguous = ([best, second]: FieldScore[]) => second !== undefined && best.score - second.score < margin;
+  const claims = new Map<string, number>();
+  scored.forEach(({ candidates }) => {
+    const [best] = candidates;
+    if (best && !isAmbiguous(candidates)) claims.set(best.field, Math.max(claims.get(best.field) ?? 0, best.score));
+  });
+  scored.forEach(({ column, candidates }) => {
+    const [best] = candidates;
+    if (!best) {
+      reject(column, []);
+    } else if (isAmbiguous(candidates)) {
+      reject(column, candidates.filter(({ score }) => best.score - score < margin));
+    } else if (claims.get(best.field) !== best.score || matchedBy.has(best.field)) {
+      // Another column is closer to the field, or ties with this one and comes first
+      reject(column, [best]);
+    } else {
+      match(column, best.field, best.score, 'similar');
+    }
+  });
+
+  result.matched.sort((a, b) => a.index - b.index);
+  result.ambiguous.sort((a, b) => a.index - b.index);
+  result.unknown.sort((a, b) => a.index - b.index);
+  result.missing = Object.entries(fields ?? {})
+    .filter(([field, definition]) => definition.required && !matchedBy.has(field))
+    .map(([field]) => field);
+  result.fields = (Array.isArray(headers) ? headers : []).map(() => undefined);
+  result.matched.forEach(({ field, index }) => {
+    result.fields[index] = field;
+  });
+  return result;
+}
+
+// Replaces the header row of the matrix with the mapped fields, for matrixToObjectArray
+export function applyHeaderMapping<T>(
+  matrix: T[][],
+  mapping: HeaderMapping,
+  options: ApplyHeaderMappingOptions = {}
+): [string[], ...T[][]] {
+  const [headers = [], ...rows] = Array.isArray(matrix) ? matrix : [];
+  const kept = headers
+    .map((header, idx) => ({ idx, name: mapping.fields[idx] ?? (options.keepUnmatched ? String(header) : undefined) }))
+    .filter((column): column is { idx: number; name: string } => column.name !== undefined);
+  return [kept.map(({ name }) => name), ...rows.map((row) => kept.map(({ idx }) => row?.[idx] as T))];
+}
+
+// One message per problem, e.g. 'Column C "Trade Dt": could be tradeDate or settleDate'
+export function formatHeaderMapping(mapping: HeaderMapping): string[] {
+  const columnOf = (field: string) => mapping.matched.find((match) => match.field === field)?.column;
+  return [
+    ...mapping.missing.map((field) => `Missing required column for ${field}`),
+    ...mapping.ambiguous.map(({ header, column, candidates }) => {
+      const [{ field }] = candidates;
+      const problem =
+        candidates.length > 1
+          ? `could be ${candidates.map((candidate) => candidate.field).join(' or ')}`
+          : `matches ${field}, already mapped to column ${columnOf(field)}`;
+      return `Column ${column} "${header}": ${problem}`;
+    }),
+    ...mapping.unknown.map(({ header, column }) => `Column ${column} "${header}": unknown column`),
+  ];
+}
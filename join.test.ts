@@ -0,0 +1,76 @@
+import { join } from './join';
+
+const trades = [
+  { ID: 1, desk: 'FX', amount: 10 },
+  { ID: 2, desk: 'IR', amount: 20 },
+  { ID: 3, desk: 'FX', amount: 30 },
+  { ID: null, desk: 'EQ', amount: 40 },
+];
+const fees = [
+  { ID: 2, fee: 1 },
+  { ID: 1, fee: 2 },
+  { ID: 1, fee: 3 },
+  { ID: 4, fee: 4 },
+  { ID: null, fee: 5 },
+];
+
+describe('join', () => {
+  test('should keep matching rows only in an inner join, every combination for repeated keys', () => {
+    expect(join(trades, fees, { on: 'ID' })).toEqual([
+      { ID: 1, desk: 'FX', amount: 10, fee: 2 },
+      { ID: 1, desk: 'FX', amount: 10, fee: 3 },
+      { ID: 2, desk: 'IR', amount: 20, fee: 1 },
+    ]);
+  });
+
+  test('should keep unmatched rows in left, right and full joins', () => {
+    const pairs = (type: 'left' | 'right' | 'full') =>
+      join(trades, fees, { on: 'ID', type, merge: (l, r) => [l?.amount, r?.fee] });
+    expect(pairs('left')).toEqual([
+      [10, 2],
+      [10, 3],
+      [20, 1],
+      [30, undefined],
+      [40, undefined],
+    ]);
+    expect(pairs('right')).toEqual([
+      [10, 2],
+      [10, 3],
+      [20, 1],
+      [undefined, 4],
+      [undefined, 5],
+    ]);
+    expect(pairs('full')).toEqual([
+      [10, 2],
+      [10, 3],
+      [20, 1],
+      [30, undefined],
+      [40, undefined],
+      [undefined, 4],
+      [undefined, 5],
+    ]);
+  });
+
+  test('should join on composite keys and different paths on each side', () => {
+    const left = [
+      { desk: 'FX', trade: { id: 1 }, x: 'a' },
+      { desk: 'IR', trade: { id: 1 }, x: 'b' },
+    ];
+    const right = [
+      { book: { desk: 'IR' }, tradeId: 1, y: 'c' },
+      { book: { desk: 'FX' }, tradeId: '1', y: 'd' },
+    ];
+    expect(
+      join(left, right, {
+        on: { left: ['desk', 'trade.id'], right: ['book.desk', 'tradeId'] },
+        merge: (l, r) => `${l?.x}${r?.y}`,
+      })
+    ).toEqual(['bc']);
+  });
+
+  test('should reject keys of different lengths', () => {
+    expect(() => join(trades, fees, { on: { left: ['ID', 'desk'], right: 'ID' } })).toThrow(
+      'Join keys differ in length: ID, desk and ID'
+    );
+  });
+});
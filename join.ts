@@ -0,0 +1,82 @@
+import compilePath from './compilePath';
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export interface JoinOptions<L, R, O> {
+  // get path(s) of the key, the same on both sides, or { left, right } when they differ.
+  // Several paths make a composite key: ['Desk', 'trade.id'].
+  on: string | string[] | { left: string | string[]; right: string | string[] };
+  // Default 'inner'
+  type?: JoinType;
+  // Builds an output row, left or right is undefined for the unmatched rows of outer joins.
+  // Default: the keys of both rows, those of the right row overwriting those of the left row.
+  merge?: (left: L | undefined, right: R | undefined) => O;
+}
+
+// Joins two row arrays on key paths like SQL does. Keys with a null or undefined part never match,
+// and 1 and '1' are different keys. Output order: every left row followed by its matches in right order,
+// then the unmatched right rows (right and full joins). Keys found on several rows give every combination.
+export function join<L extends object, R extends object, O = L & R>(
+  left: L[],
+  right: R[],
+  options: JoinOptions<L, R, O>
+): O[] {
+  const { on, type = 'inner' } = options;
+  const merge = options.merge ?? ((l?: L, r?: R) => ({ ...l, ...r }) as unknown as O);
+  const [leftPaths, rightPaths] =
+    typeof on === 'object' && !Array.isArray(on) ? [toList(on.left), toList(on.right)] : [toList(on), toList(on)];
+  if (leftPaths.length !== rightPaths.length) {
+    throw new Error(`Join keys differ in length: ${leftPaths.join(', ')} and ${rightPaths.join(', ')}`);
+  }
+  const leftKey = keyReader(leftPaths);
+  const rightKey = keyReader(rightPaths);
+  const leftRows = Array.isArray(left) ? left : [];
+  const rightRows = Array.isArray(right) ? right : [];
+
+  // Right row indexes by key, in order
+  const index = new Map<string, number[]>();
+  rightRows.forEach((row, idx) => {
+    const key = rightKey(row);
+    if (key === undefined) return;
+    const indexes = index.get(key);
+    if (indexes) {
+      indexes.push(idx);
+    } else {
+      index.set(key, [idx]);
+    }
+  });
+
+  const result: O[] = [];
+  const matched = new Set<number>();
+  leftRows.forEach((row) => {
+    const key = leftKey(row);
+    const indexes = key !== undefined ? index.get(key) : undefined;
+    if (indexes) {
+      indexes.forEach((idx) => {
+        matched.add(idx);
+        result.push(merge(row, rightRows[idx]));
+      });
+    } else if (type === 'left' || type === 'full') {
+      result.push(merge(row, undefined));
+    }
+  });
+  if (type === 'right' || type === 'full') {
+    rightRows.forEach((row, idx) => {
+      if (!matched.has(idx)) result.push(merge(undefined, row));
+    });
+  }
+  return result;
+}
+
+function toList(paths: string | string[]): string[] {
+  return Array.isArray(paths) ? paths : [paths];
+}
+
+// Identity of the key values of a row, undefined when one of them is missing
+function keyReader(paths: string[]): (row: any) => string | undefined {
+  const readers = paths.map((path) => compilePath(path));
+  return (row) => {
+    const values = readers.map((read) => read(row));
+    return values.some((value) => value === undefined || value === null) ? undefined : JSON.stringify(values);
+  };
+}
@@ -0,0 +1,167 @@
+import { applyPatch, diff, JsonPatchError, JsonPatchOperation, toKeys, toPointer } from './jsonPatch';
+
+describe('JSON Pointer conversion', () => {
+  test('should escape and unescape ~ and /', () => {
+    expect(toPointer(['a', 'b/c', 'd~e', 0])).toBe('/a/b~1c/d~0e/0');
+    expect(toKeys('/a/b~1c/d~0e/0')).toEqual(['a', 'b/c', 'd~e', '0']);
+    expect(toKeys('')).toEqual([]);
+    expect(toKeys('/')).toEqual(['']);
+  });
+
+  test('should accept dot paths', () => {
+    expect(toKeys('a.b[0]["c/d"]')).toEqual(['a', 'b', '0', 'c/d']);
+  });
+});
+
+describe('diff', () => {
+  test('should produce add, remove and replace operations for objects', () => {
+    const a = { name: 'Sheet1', rows: 10, meta: { owner: 'x', tags: ['a'] } };
+    const b = { name: 'Data', meta: { owner: 'x', tags: ['a', 'b'] }, hidden: true };
+    expect(diff(a, b)).toEqual([
+      { op: 'remove', path: '/rows' },
+      { op: 'replace', path: '/name', value: 'Data' },
+      { op: 'add', path: '/meta/tags/1', value: 'b' },
+      { op: 'add', path: '/hidden', value: true },
+    ]);
+  });
+
+  test('should replace the root and values of a different kind', () => {
+    expect(diff([1], { a: 1 })).toEqual([{ op: 'replace', path: '', value: { a: 1 } }]);
+    expect(diff({ a: [1] }, { a: { 0: 1 } })).toEqual([{ op: 'replace', path: '/a', value: { 0: 1 } }]);
+    expect(diff({ a: 1 }, { a: 1 })).toEqual([]);
+  });
+
+  test('should remove trailing array items from the end', () => {
+    expect(diff({ a: [1, 2, 3, 4] }, { a: [1, 5] })).toEqual([
+      { op: 'replace', path: '/a/1', value: 5 },
+      { op: 'remove', path: '/a/3' },
+      { op: 'remove', path: '/a/2' },
+    ]);
+  });
+
+  test('should match array items by key path', () => {
+    const a = { rows: [{ id: 1, v: 'a' }, { id: 2, v: 'b' }, { id: 3, v: 'c' }] };
+    const b = { rows: [{ id: 3, v: 'c' }, { id: 1, v: 'A' }, { id: 4, v: 'd' }] };
+    const operations = diff(a, b, { arrayKey: 'id' });
+    expect(operations).toEqual([
+      { op: 'remove', path: '/rows/1' },
+      { op: 'move', from: '/rows/1', path: '/rows/0' },
+      { op: 'replace', path: '/rows/1/v', value: 'A' },
+      { op: 'add', path: '/rows/2', value: { id: 4, v: 'd' } },
+    ]);
+    expect(applyPatch(a, operations)).toEqual(b);
+  });
+
+  test('should support nested key paths and duplicate keys', () => {
+    const a = [{ key: { id: 'x' }, n: 1 }, { key: { id: 'x' }, n: 2 }, { key: { id: 'z' }, n: 3 }];
+    const b = [{ key: { id: 'y' } }, { key: { id: 'x' }, n: 1 }, { key: { id: 'x' }, n: 4 }];
+    expect(applyPatch(a, diff(a, b, { arrayKey: 'key.id' }))).toEqual(b);
+  });
+
+  test('should compare arrays by index when their items have no key', () => {
+    const a = { rows: [{ id: 1, tags: ['a', 'b'] }], other: [{ id: 1 }, { n: 2 }] };
+    const b = { rows: [{ id: 1, tags: ['b'] }], other: [{ n: 2 }, { id: 1 }] };
+    expect(diff(a, b, { arrayKey: 'id' })).toEqual([
+      { op: 'replace', path: '/rows/0/tags/0', value: 'b' },
+      { op: 'remove', path: '/rows/0/tags/1' },
+      ...diff(a.other, b.other).map((operation) => ({ ...operation, path: `/other${operation.path}` })),
+    ]);
+    expect(applyPatch(a, diff(a, b, { arrayKey: 'id' }))).toEqual(b);
+  });
+
+  test('should round trip through applyPatch', () => {
+    const cases: Array<[any, any]> = [
+      [{ a: [1, 2, { b: [3] }] }, { a: [2, { b: [3, 4] }], c: null }],
+      [{ 'a/b': { '~': 1 } }, { 'a/b': { '~': 2, '': 0 } }],
+      [[], [[1], { x: [] }]],
+      ['text', { a: 1 }],
+    ];
+    cases.forEach(([a, b]) => {
+      expect(applyPatch(a, diff(a, b))).toEqual(b);
+    });
+  });
+});
+
+describe('applyPatch', () => {
+  const doc = () => ({ a: { b: [1, 2, 3] }, c: 'x' });
+
+  test('should apply every operation', () => {
+    const operations: JsonPatchOperation[] = [
+      { op: 'add', path: '/a/b/-', value: 4 },
+      { op: 'add', path: '/a/b/0', value: 0 },
+      { op: 'remove', path: '/a/b/1' },
+      { op: 'replace', path: '/c', value: 'y' },
+      { op: 'copy', from: '/a/b', path: '/d' },
+      { op: 'move', from: '/c', path: '/a/c' },
+      { op: 'test', path: '/a/c', value: 'y' },
+    ];
+    expect(applyPatch(doc(), operations)).toEqual({ a: { b: [0, 2, 3, 4], c: 'y' }, d: [0, 2, 3, 4] });
+  });
+
+  test('should accept dot paths', () => {
+    expect(applyPatch(doc(), [{ op: 'replace', path: 'a.b[1]', value: 20 }])).toEqual({
+      a: { b: [1, 20, 3] },
+      c: 'x',
+    });
+  });
+
+  test('should not modify the document or share patch values by default', () => {
+    const original = doc();
+    const value = { nested: true };
+    const result = applyPatch(original, [{ op: 'add', path: '/v', value }]);
+    expect(original).toEqual(doc());
+    expect((result as any).v).not.toBe(value);
+  });
+
+  test('should leave the document untouched when an operation fails', () => {
+    const original = doc();
+    const operations: JsonPatchOperation[] = [
+      { op: 'replace', path: '/c', value: 'y' },
+      { op: 'test', path: '/a/b/0', value: 5 },
+    ];
+    expect(() => applyPatch(original, operations)).toThrow(JsonPatchError);
+    expect(original).toEqual(doc());
+  });
+
+  test('should report the failing operation', () => {
+    try {
+      applyPatch(doc(), [{ op: 'test', path: '/c', value: 'x' }, { op: 'remove', path: '/missing' }]);
+      fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonPatchError);
+      expect((error as JsonPatchError).index).toBe(1);
+      expect((error as JsonPatchError).message).toBe('Operation 1 (remove /missing): path not found: /missing');
+    }
+  });
+
+  test('should modify the document in place when not atomic', () => {
+    const original = doc();
+    const operations: JsonPatchOperation[] = [
+      { op: 'replace', path: '/c', value: 'y' },
+      { op: 'add', path: '/a/b/9', value: 1 },
+    ];
+    expect(() => applyPatch(original, operations, { atomic: false })).toThrow("invalid array index '9'");
+    expect(original.c).toBe('y');
+  });
+
+  test('should reject keys writing through the prototype', () => {
+    const unsafe: JsonPatchOperation[][] = [
+      [{ op: 'add', path: '/__proto__/polluted', value: 1 }],
+      [{ op: 'add', path: '/__proto__', value: { polluted: 1 } }],
+      [{ op: 'replace', path: 'constructor.prototype.polluted', value: 1 }],
+      [{ op: 'copy', from: '/a', path: '/a/__proto__' }],
+      [{ op: 'move', from: '/__proto__', path: '/x' }],
+    ];
+    unsafe.forEach((operations) => {
+      expect(() => applyPatch(doc(), operations)).toThrow(JsonPatchError);
+    });
+    expect(() => applyPatch({}, unsafe[0])).toThrow("unsafe key '__proto__' in /__proto__/polluted");
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  test('should reject moving a value into its own children', () => {
+    expect(() => applyPatch(doc(), [{ op: 'move', from: '/a', path: '/a/b/x' }])).toThrow(
+      'cannot move a value into one of its children'
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import { cloneDeep, isEqual, isPlainObject } from 'lodash';
+import compilePath from './compilePath.js';
+import { UNSAFE_KEYS } from './set.js';
+import { cachedToPath } from './toPath.js';
+
+type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: any };
+
+interface DiffOptions {
+  // get-style path of the key identifying array items (e.g. 'id'). Arrays are compared by index otherwise,
+  // and when one of their items has no key (arrays of primitives, items of another shape).
+  arrayKey?: string;
+}
+
+interface ApplyOptions {
+  // Apply to a copy and leave the document untouched if any operation fails (default true).
+  // When false the document is modified in place and operations before the failing one stay applied.
+  atomic?: boolean;
+}
+
+class JsonPatchError extends Error {
+  constructor(message: string, readonly index: number, readonly operation: JsonPatchOperation) {
+    super(`Operation ${index} (${operation.op} ${operation.path}): ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * Computes RFC 6902 operations turning a into b.
+ * @param a The original document.
+ * @param b The target document.
+ * @param options Set arrayKey to match array items by key, so reordered items produce moves instead of replaces.
+ * @returns Operations with JSON Pointer paths, applyPatch(a, diff(a, b)) deep equals b.
+ */
+function diff(a: any, b: any, options: DiffOptions = {}): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  const keyOf = options.arrayKey ? compilePath(options.arrayKey) : undefined;
+  diffValues(a, b, [], operations, keyOf);
+  return operations;
+}
+
+function diffValues(
+  a: any,
+  b: any,
+  keys: string[],
+  operations: JsonPatchOperation[],
+  keyOf?: (item: any) => any
+): void {
+  if (isEqual(a, b)) {
+    return;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (keyOf && hasKeys(a, keyOf) && hasKeys(b, keyOf)) {
+      diffKeyedArrays(a, b, keys, operations, keyOf);
+    } else {
+      diffArrays(a, b, keys, operations, keyOf);
+    }
+    return;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    Object.keys(a).forEach((key) => {
+      if (!(key in b)) {
+        operations.push({ op: 'remove', path: toPointer([...keys, key]) });
+      }
+    });
+    Object.keys(b).forEach((key) => {
+      if (key in a) {
+        diffValues(a[key], b[key], [...keys, key], operations, keyOf);
+      } else {
+        operations.push({ op: 'add', path: toPointer([...keys, key]), value: cloneDeep(b[key]) });
+      }
+    });
+    return;
+  }
+  operations.push({ op: 'replace', path: toPointer(keys), value: cloneDeep(b) });
+}
+
+function diffArrays(a: any[], b: any[], keys: string[], operations: JsonPatchOperation[], keyOf?: (item: any) => any) {
+  const common = Math.min(a.length, b.length);
+  for (let i = 0; i < common; i++) {
+    diffValues(a[i], b[i], [...keys, String(i)], operations, keyOf);
+  }
+  // Remove from the end so earlier indexes stay valid
+  for (let i = a.length - 1; i >= b.length; i--) {
+    operations.push({ op: 'remove', path: toPointer([...keys, String(i)]) });
+  }
+  for (let i = a.length; i < b.length; i++) {
+    operations.push({ op: 'add', path: toPointer([...keys, String(i)]), value: cloneDeep(b[i]) });
+  }
+}
+
+function hasKeys(items: any[], keyOf: (item: any) => any): boolean {
+  return items.every((item) => item !== null && typeof item === 'object' && keyOf(item) !== undefined);
+}
+
+function diffKeyedArrays(
+  a: any[],
+  b: any[],
+  keys: string[],
+  operations: JsonPatchOperation[],
+  keyOf: (item: any) => any
+): void {
+  const targetKeys = new Set(b.map((item) => keyOf(item)));
+
+  // Items of a whose key is duplicated or gone from b are removed, from the end so earlier indexes stay valid
+  const seen = new Set<any>();
+  const kept = a.map((item) => {
+    const key = keyOf(item);
+    const keep = targetKeys.has(key) && !seen.has(key);
+    seen.add(key);
+    return keep;
+  });
+  for (let i = a.length - 1; i >= 0; i--) {
+    if (!kept[i]) {
+      operations.push({ op: 'remove', path: toPointer([...keys, String(i)]) });
+    }
+  }
+  const current = a.filter((_item, i) => kept[i]).map((value) => ({ key: keyOf(value), value }));
+
+  // Walk b in order: matched items are moved into place and diffed, new items are added
+  b.forEach((target, i) => {
+    const key = keyOf(target);
+    const j = current.findIndex((item, index) => index >= i && item.key === key);
+    const itemKeys = [...keys, String(i)];
+    if (j === -1) {
+      operations.push({ op: 'add', path: toPointer(itemKeys), value: cloneDeep(target) });
+      current.splice(i, 0, { key: undefined, value: target });
+      return;
+    }
+    if (j !== i) {
+      operations.push({ op: 'move', from: toPointer([...keys, String(j)]), path: toPointer(itemKeys) });
+      current.splice(i, 0, ...current.splice(j, 1));
+    }
+    diffValues(current[i].value, target, itemKeys, operations, keyOf);
+  });
+}
+
+/**
+ * Applies RFC 6902 operations. Paths are JSON Pointers ('/a/0/b'), or dot paths in the get grammar
+ * without wildcards ('a[0].b'), which are converted with superToPath.
+ * @param document The document to patch.
+ * @param operations The operations, applied in order. A failing 'test' operation fails the patch.
+ * @param options See ApplyOptions.
+ * @returns The patched document.
+ * @throws JsonPatchError with the index of the failing operation.
+ */
+function applyPatch<T = any>(document: T, operations: JsonPatchOperation[], options: ApplyOptions = {}): T {
+  let result: any = options.atomic === false ? document : cloneDeep(document);
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      throw new JsonPatchError(error instanceof Error ? error.message : String(error), index, operation);
+    }
+  });
+  return result;
+}
+
+function applyOperation(document: any, operation: JsonPatchOperation): any {
+  const keys = toSafeKeys(operation.path);
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, keys, cloneDeep(operation.value));
+    case 'remove':
+      return removeValue(document, keys);
+    case 'replace':
+      removeValue(document, keys);
+      return addValue(document, keys, cloneDeep(operation.value));
+    case 'move': {
+      const from = toSafeKeys(operation.from);
+      if (from.length < keys.length && from.every((key, i) => key === keys[i])) {
+        throw new Error('cannot move a value into one of its children');
+      }
+      const value = readValue(document, from);
+      return addValue(removeValue(document, from), keys, value);
+    }
+    case 'copy':
+      return addValue(document, keys, cloneDeep(readValue(document, toSafeKeys(operation.from))));
+    case 'test':
+      if (!isEqual(readValue(document, keys), operation.value)) {
+        throw new Error('test failed');
+      }
+      return document;
+    default:
+      throw new Error(`unknown operation '${(operation as { op: string }).op}'`);
+  }
+}
+
+// Like set, never write through the prototype: patches often come from outside ('/__proto__/polluted')
+function toSafeKeys(path: string): string[] {
+  const keys = toKeys(path);
+  const unsafe = keys.find((key) => UNSAFE_KEYS.includes(key));
+  if (unsafe !== undefined) {
+    throw new Error(`unsafe key '${unsafe}' in ${toPointer(keys)}`);
+  }
+  return keys;
+}
+
+function readValue(document: any, keys: string[]): any {
+  let current = document;
+  keys.forEach((key) => {
+    if (current == null || typeof current !== 'object' || !hasKey(current, key)) {
+      throw new Error(`path not found: ${toPointer(keys)}`);
+    }
+    current = current[key];
+  });
+  return current;
+}
+
+function addValue(document: any, keys: string[], value: any): any {
+  if (keys.length === 0) {
+    return value;
+  }
+  const parent = readValue(document, keys.slice(0, -1));
+  const key = keys[keys.length - 1];
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : toIndex(key, parent.length);
+    parent.splice(index, 0, value);
+  } else if (parent !== null && typeof parent === 'object') {
+    parent[key] = value;
+  } else {
+    throw new Error(`cannot add to a non-container: ${toPointer(keys)}`);
+  }
+  return document;
+}
+
+function removeValue(document: any, keys: string[]): any {
+  if (keys.length === 0) {
+    return undefined;
+  }
+  const parent = readValue(document, keys.slice(0, -1));
+  const key = keys[keys.length - 1];
+  if (parent == null || typeof parent !== 'object' || !hasKey(parent, key)) {
+    throw new Error(`path not found: ${toPointer(keys)}`);
+  }
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return document;
+}
+
+function hasKey(container: any, key: string): boolean {
+  if (Array.isArray(container)) {
+    return /^(0|[1-9]\d*)$/.test(key) && Number(key) < container.length;
+  }
+  return Object.prototype.hasOwnProperty.call(container, key);
+}
+
+function toIndex(key: string, max: number): number {
+  if (!/^(0|[1-9]\d*)$/.test(key) || Number(key) > max) {
+    throw new Error(`invalid array index '${key}'`);
+  }
+  return Number(key);
+}
+
+/**
+ * Converts a JSON Pointer ('/a/0/b~1c') or a dot path ('a[0]["b/c"]') to keys.
+ */
+function toKeys(path: string): string[] {
+  if (path === '') {
+    return [];
+  }
+  if (path.startsWith('/')) {
+    return path
+      .slice(1)
+      .split('/')
+      .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+  return cachedToPath(path);
+}
+
+/**
+ * Converts keys to a JSON Pointer, escaping '~' and '/'.
+ */
+function toPointer(keys: Array<string | number>): string {
+  return keys.map((key) => `/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+export type { ApplyOptions, DiffOptions, JsonPatchOperation };
+export { applyPatch, diff, JsonPatchError, toKeys, toPointer };
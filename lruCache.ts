@@ -0,0 +1,48 @@
+/**
+ * Small least-recently-used cache on top of Map insertion order.
+ * Reading an entry marks it as most recently used, the oldest entry is evicted when full.
+ */
+class LRUCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly maxSize: number) {
+    if (!(maxSize > 0)) {
+      throw new Error(`LRUCache size must be positive, got ${maxSize}`);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+    const value = this.entries.get(key) as V;
+    // Move to the end (most recently used)
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): this {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      // First key in insertion order is the least recently used
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+    return this;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export default LRUCache;
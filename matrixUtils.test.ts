@@ -1,5 +1,13 @@
 // matrixUtils.test.ts
-import { matrixToObjectArray, columnMatrixToObjectArray  } from './matrixUtils';
+import {
+  matrixToObjectArray,
+  columnMatrixToObjectArray,
+  objectArrayToMatrix,
+  objectArrayToColumnMatrix,
+  columnLetter,
+  matrixToObjectStream,
+} from './matrixUtils';
+import { formatCellError } from './rowSchema';
 
 describe('matrixToObjectArray', () => {
   it('should convert a matrix with string data to array of objects', () => {
@@ -57,3 +65,329 @@ describe('columnMatrixToObjectArray', () => {
   });
 });
 
+describe('header policies', () => {
+  const matrix = [
+    ['Name', 'Rate', '', 'Rate', 'Rate2'],
+    ['a', 1, 'x', 2, 3],
+  ] as [string[], ...any[][]];
+
+  it('should let the later column win by default', () => {
+    expect(matrixToObjectArray(matrix)).toEqual([{ Name: 'a', Rate: 2, '': 'x', Rate2: 3 }]);
+  });
+
+  it('should suffix duplicate and blank headers', () => {
+    expect(matrixToObjectArray(matrix, { headerPolicy: 'suffix' })).toEqual([
+      { Name: 'a', Rate: 1, Column3: 'x', Rate3: 2, Rate2: 3 },
+    ]);
+  });
+
+  it('should collect duplicate headers into arrays', () => {
+    expect(matrixToObjectArray(matrix, { headerPolicy: 'array' })).toEqual([
+      { Name: 'a', Rate: [1, 2], Column3: 'x', Rate2: 3 },
+    ]);
+  });
+
+  it('should throw on duplicate and blank headers', () => {
+    expect(() => matrixToObjectArray(matrix, { headerPolicy: 'error' })).toThrow('Blank header in column C');
+    expect(() => matrixToObjectArray([['A', 'B', 'A']], { headerPolicy: 'error' })).toThrow(
+      "Duplicate header 'A' in column C (first in column A)"
+    );
+  });
+
+  it('should apply to column matrices', () => {
+    const columns = [
+      ['Rate', 1, 2],
+      ['Rate', 3, 4],
+    ] as [string, ...number[]][];
+    expect(columnMatrixToObjectArray(columns, { headerPolicy: 'array' })).toEqual([{ Rate: [1, 3] }, { Rate: [2, 4] }]);
+  });
+});
+
+describe('nested headers', () => {
+  it('should build nested objects from dotted headers', () => {
+    const matrix = [
+      ['id', 'address.city', 'address.geo.lat'],
+      [1, 'Paris', 48.8],
+    ] as [string[], ...any[][]];
+    expect(matrixToObjectArray(matrix, { nested: true })).toEqual([
+      { id: 1, address: { city: 'Paris', geo: { lat: 48.8 } } },
+    ]);
+    expect(matrixToObjectArray(matrix)).toEqual([{ id: 1, 'address.city': 'Paris', 'address.geo.lat': 48.8 }]);
+  });
+
+  it('should skip headers writing through the prototype', () => {
+    const matrix = [
+      ['__proto__.polluted', 'constructor.prototype.polluted', 'a.__proto__.polluted', 'constructor', 'id'],
+      [1, 2, 3, 4, 5],
+    ] as [string[], ...any[][]];
+    expect(matrixToObjectArray(matrix, { nested: true })).toEqual([{ constructor: 4, id: 5 }]);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe('objectArrayToMatrix', () => {
+  const objects = [
+    { id: 1, name: 'a' },
+    { id: 2, rate: 0.5, name: 'b' },
+  ];
+
+  it('should use the union of keys in first-seen order', () => {
+    expect(objectArrayToMatrix(objects)).toEqual([
+      ['id', 'name', 'rate'],
+      [1, 'a', undefined],
+      [2, 'b', 0.5],
+    ]);
+  });
+
+  it('should use the keys of the first object', () => {
+    expect(objectArrayToMatrix(objects, { keys: 'first' })).toEqual([
+      ['id', 'name'],
+      [1, 'a'],
+      [2, 'b'],
+    ]);
+  });
+
+  it('should follow the given headers or sort order', () => {
+    expect(objectArrayToMatrix(objects, { headers: ['rate', 'id'] })).toEqual([
+      ['rate', 'id'],
+      [undefined, 1],
+      [0.5, 2],
+    ]);
+    expect(objectArrayToMatrix(objects, { compareHeaders: (a, b) => b.localeCompare(a) })[0]).toEqual([
+      'rate',
+      'name',
+      'id',
+    ]);
+  });
+
+  it('should handle an empty array', () => {
+    expect(objectArrayToMatrix([])).toEqual([[]]);
+  });
+
+  it('should build column matrices', () => {
+    expect(objectArrayToColumnMatrix(objects, { keys: 'first' })).toEqual([
+      ['id', 1, 2],
+      ['name', 'a', 'b'],
+    ]);
+  });
+
+  it('should round-trip nested objects and collected arrays', () => {
+    const rows = [
+      { id: 1, tags: ['x', 'y'], address: { city: 'Paris', zip: '75001' } },
+      { id: 2, tags: ['z', undefined], address: { city: 'Lyon', zip: undefined } },
+    ];
+    const options = { nested: true, headerPolicy: 'array' as const };
+    const matrix = objectArrayToMatrix(rows, options);
+    expect(matrix).toEqual([
+      ['id', 'tags', 'tags', 'address.city', 'address.zip'],
+      [1, 'x', 'y', 'Paris', '75001'],
+      [2, 'z', undefined, 'Lyon', undefined],
+    ]);
+    expect(matrixToObjectArray(matrix, options)).toEqual(rows);
+    expect(columnMatrixToObjectArray(objectArrayToColumnMatrix(rows, options), options)).toEqual(rows);
+  });
+});
+
+describe('columnLetter', () => {
+  it('should convert column indexes to letters', () => {
+    expect([0, 2, 25, 26, 27, 701, 702].map(columnLetter)).toEqual(['A', 'C', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
+
+describe('schema', () => {
+  const schema = {
+    id: { type: 'integer', required: true },
+    name: { type: 'string' },
+    rate: { type: 'number', header: 'Rate', validate: (value: number) => value >= 0 || 'must be positive' },
+    active: { type: 'boolean', default: false },
+    start: { type: 'date' },
+    side: { type: 'enum', values: ['Buy', 'Sell'], required: true },
+  } as const;
+
+  const matrix = [
+    ['id', 'name', 'Rate', 'active', 'start', 'side'],
+    ['1', '  a  ', '1,234.5', 'yes', '2024-03-01', 'buy'],
+    [2.5, 'b', 'abc', '', 45352, 'Sell'],
+    [null, undefined, -1, 'maybe', 'not a date', 'Hold'],
+  ] as [string[], ...any[][]];
+
+  it('should convert cells and report errors with their coordinates', () => {
+    const { rows, errors } = matrixToObjectArray(matrix, { schema });
+    expect(rows).toEqual([
+      { id: 1, name: 'a', rate: 1234.5, active: true, start: new Date('2024-03-01T00:00:00Z'), side: 'Buy' },
+      {
+        id: undefined,
+        name: 'b',
+        rate: undefined,
+        active: false,
+        start: new Date('2024-03-01T00:00:00Z'),
+        side: 'Sell',
+      },
+      { id: undefined, name: undefined, rate: -1, active: undefined, start: undefined, side: undefined },
+    ]);
+    expect(errors.map(formatCellError)).toEqual([
+      'Row 3, column A "id": not an integer',
+      'Row 3, column C "Rate": not a number',
+      'Row 4, column A "id": required',
+      'Row 4, column D "active": not a boolean',
+      'Row 4, column E "start": not a date',
+      'Row 4, column F "side": not one of Buy, Sell',
+      'Row 4, column C "Rate": must be positive',
+    ]);
+    expect(errors[1]).toEqual({ row: 3, column: 'C', header: 'Rate', value: 'abc', message: 'not a number' });
+  });
+
+  it('should infer the row type from the schema', () => {
+    const { rows } = matrixToObjectArray(matrix, { schema });
+    const side: 'Buy' | 'Sell' = rows[0].side;
+    const rate: number | undefined = rows[0].rate;
+    const active: boolean = rows[0].active;
+    expect([side, rate, active]).toEqual(['Buy', 1234.5, true]);
+  });
+
+  it('should report missing columns once and shift coordinates by the offset', () => {
+    const { rows, errors } = matrixToObjectArray([['id'], [1], ['x']], { schema, offset: { top: 4, left: 1 } });
+    expect(rows.map((row) => row.side)).toEqual([undefined, undefined]);
+    expect(errors.map(formatCellError)).toEqual([
+      'Column "side": missing column',
+      'Row 7, column B "id": not a number',
+    ]);
+  });
+
+  it('should read numeric text as Excel serials and reject non-decimal numbers', () => {
+    const { rows, errors } = matrixToObjectArray(
+      [['id', 'Rate', 'start', 'side'], ['3', '0x1F', '45352', 'Buy'], ['4', 'Infinity', '45352.5', 'Buy']],
+      { schema }
+    );
+    expect(rows.map((row) => row.start)).toEqual([
+      new Date('2024-03-01T00:00:00Z'),
+      new Date('2024-03-01T12:00:00Z'),
+    ]);
+    expect(errors.map(formatCellError)).toEqual([
+      'Row 2, column B "Rate": not a number',
+      'Row 3, column B "Rate": not a number',
+    ]);
+  });
+
+  it('should parse column matrices', () => {
+    const columns = [
+      ['id', 1, 'x'],
+      ['side', 'sell', 'buy'],
+    ] as [string, ...any[]][];
+    const { rows, errors } = columnMatrixToObjectArray(columns, { schema: { id: schema.id, side: schema.side } });
+    expect(rows).toEqual([
+      { id: 1, side: 'Sell' },
+      { id: undefined, side: 'Buy' },
+    ]);
+    expect(errors.map(formatCellError)).toEqual(['Row 1, column C "id": not a number']);
+  });
+});
+
+describe('multi-row headers', () => {
+  const matrix = [
+    ['Quarterly report'],
+    [],
+    ['ID', 'Q1', null, 'Q2', ''],
+    ['', 'Revenue', 'Cost', 'Revenue', 'Cost'],
+    [1, 10, 4, 12, 5],
+  ];
+
+  it('should forward fill group cells and join the header rows', () => {
+    expect(matrixToObjectArray(matrix, { headerRow: 2, headerRows: 2 })).toEqual([
+      { ID: 1, 'Q1.Revenue': 10, 'Q1.Cost': 4, 'Q2.Revenue': 12, 'Q2.Cost': 5 },
+    ]);
+  });
+
+  it('should build nested keys or use a custom joiner', () => {
+    expect(matrixToObjectArray(matrix, { headerRow: 2, headerRows: 2, nested: true })).toEqual([
+      { ID: 1, Q1: { Revenue: 10, Cost: 4 }, Q2: { Revenue: 12, Cost: 5 } },
+    ]);
+    expect(matrixToObjectArray(matrix, { headerRow: 2, headerRows: 2, headerJoiner: ' ' })[0]).toHaveProperty(
+      'Q2 Cost',
+      5
+    );
+    const headerJoiner = (parts: string[]) => parts.reverse().join('_');
+    expect(matrixToObjectArray(matrix, { headerRow: 2, headerRows: 2, headerJoiner })[0]).toHaveProperty(
+      'Revenue_Q1',
+      10
+    );
+  });
+
+  it('should not fill across a parent group', () => {
+    const headers = [
+      ['2024', null, null, '2025'],
+      ['Q1', null, 'Q2', null],
+      ['Rev', 'Cost', 'Rev', 'Cost'],
+      [1, 2, 3, 4],
+    ];
+    expect(Object.keys(matrixToObjectArray(headers, { headerRows: 3 })[0])).toEqual([
+      '2024.Q1.Rev',
+      '2024.Q1.Cost',
+      '2024.Q2.Rev',
+      '2025.Cost',
+    ]);
+  });
+
+  it('should detect the header row below title rows', () => {
+    const titled = [['Trades', null], ['as of 2024-03-01'], ['id', 'rate'], [1, 0.5]];
+    expect(matrixToObjectArray(titled, { headerRow: 'auto' })).toEqual([{ id: 1, rate: 0.5 }]);
+    expect(matrixToObjectArray(matrix, { headerRow: 'auto', headerRows: 2 })).toEqual([
+      { ID: 1, 'Q1.Revenue': 10, 'Q1.Cost': 4, 'Q2.Revenue': 12, 'Q2.Cost': 5 },
+    ]);
+  });
+
+  it('should report schema errors on the sheet rows', () => {
+    const { errors } = matrixToObjectArray([['Title'], ['id', 'name'], ['x', 'a']], {
+      headerRow: 'auto',
+      schema: { id: { type: 'number' } },
+    });
+    expect(errors.map(formatCellError)).toEqual(['Row 3, column A "id": not a number']);
+  });
+});
+
+describe('matrixToObjectStream', () => {
+  const collect = async (stream: AsyncIterable<Record<string, any>>) => {
+    const result: Array<Record<string, any>> = [];
+    for await (const item of stream) result.push(item);
+    return result;
+  };
+
+  it('should convert rows like matrixToObjectArray, with null for empty rows, dropping trailing ones', async () => {
+    const rows = [['id', 'name'], [1, 'a'], [null, ''], [], [2, 'b'], [], ['', ' ']];
+    expect(await collect(matrixToObjectStream(rows))).toEqual([
+      { id: 1, name: 'a' },
+      { id: null, name: null },
+      { id: null, name: null },
+      { id: 2, name: 'b' },
+    ]);
+  });
+
+  it('should use the header options', async () => {
+    async function* source() {
+      yield ['Report'];
+      yield ['Q1', null];
+      yield ['Revenue', 'Cost'];
+      yield [10, 4];
+    }
+    expect(await collect(matrixToObjectStream(source(), { headerRow: 'auto', headerRows: 2, nested: true }))).toEqual([
+      { Q1: { Revenue: 10, Cost: 4 } },
+    ]);
+    expect(await collect(matrixToObjectStream([['Report'], ['a', 'b']], { headerRow: 'auto' }))).toEqual([]);
+  });
+
+  it('should only read rows when the consumer asks for them', async () => {
+    let read = 0;
+    function* source() {
+      yield ['n'];
+      for (let n = 0; n < 1000000; n++) {
+        read++;
+        yield [n];
+      }
+    }
+    const stream = matrixToObjectStream(source());
+    expect((await stream.next()).value).toEqual({ n: 0 });
+    expect((await stream.next()).value).toEqual({ n: 1 });
+    expect(read).toBe(2);
+    await stream.return();
+  });
+});
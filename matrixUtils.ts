@@ -1,27 +1,385 @@
-export function matrixToObjectArray<T = any>(matrix: [string[], ...T[][]]): Array<Record<string, T>> {
-  if (!Array.isArray(matrix) || matrix.length < 1) return [];
-  const [headers, ...rows] = matrix;
-  return rows.map((row) => {
-    const obj: Record<string, T> = {} as Record<string, T>;
-    headers.forEach((header, idx) => {
-      obj[header] = row[idx];
-    });
-    return obj;
-  });
+import { isPlainObject } from 'lodash';
+import { CellError, InferRow, MatrixOffset, parseRow, RowSchema, SchemaResult } from './rowSchema';
+import { isEmptyValue } from './trimMatrix';
+
+// What to do when a header repeats or is blank:
+// 'overwrite' the later column wins, headers are used as is (default),
+// 'suffix' renames them the way Excel tables do ('Rate', 'Rate2', blank → 'Column3'),
+// 'array' collects the values of repeated headers into an array (blank headers are named like 'suffix'),
+// 'error' throws, naming the offending column.
+export type HeaderPolicy = 'overwrite' | 'suffix' | 'array' | 'error';
+
+export interface MatrixToObjectOptions {
+  headerPolicy?: HeaderPolicy;
+  // Build nested objects from dotted headers: 'address.city' → { address: { city } }
+  nested?: boolean;
+  // Index of the first header row, the rows above it (titles, notes) are skipped. Default 0.
+  // 'auto' takes the first rows with as many filled columns as the fullest rows below them.
+  headerRow?: number | 'auto';
+  // Number of header rows (default 1). Blank group cells are filled from the left within their parent group,
+  // so merged 'Q1' above 'Revenue | Cost' gives 'Q1.Revenue' and 'Q1.Cost'.
+  headerRows?: number;
+  // Joins the parts of multi-row headers, default '.' (combined with nested for nested keys)
+  headerJoiner?: string | ((parts: string[]) => string);
+}
+
+export interface ObjectToMatrixOptions {
+  // Columns in this order, other keys are left out
+  headers?: string[];
+  // Without headers: the keys of every object in first-seen order ('union', default) or of the first object only
+  keys?: 'union' | 'first';
+  // Sorts the collected keys, ignored when headers are given
+  compareHeaders?: (a: string, b: string) => number;
+  // Flatten nested plain objects to dotted headers, the reverse of nested
+  nested?: boolean;
+  // Only 'array' changes the output: array values are spread over repeated header columns,
+  // the reverse of collecting them, so the same options can be used in both directions
+  headerPolicy?: HeaderPolicy;
+}
+
+// Typed conversion: cells are converted and checked by the schema, errors point at the sheet coordinates.
+// Only schema columns are kept, each reads the last column with its header (use 'suffix' for repeated headers).
+export interface SchemaOptions<S extends RowSchema> extends Omit<MatrixToObjectOptions, 'nested'> {
+  schema: S;
+  offset?: MatrixOffset;
 }
 
+interface ResolvedHeader {
+  key: string;
+  path: string[];
+  collect: boolean;
+}
+
+export function matrixToObjectArray<T = any>(matrix: [string[], ...T[][]]): Array<Record<string, T>>;
+// Matrices typed as rows only, e.g. parsed from a file, with the header row as one of them
+export function matrixToObjectArray<T = any>(matrix: T[][]): Array<Record<string, T>>;
+export function matrixToObjectArray<const S extends RowSchema>(
+  matrix: any[][],
+  options: SchemaOptions<S>
+): SchemaResult<InferRow<S>>;
+export function matrixToObjectArray(matrix: any[][], options: MatrixToObjectOptions): Array<Record<string, any>>;
+export function matrixToObjectArray(
+  matrix: any[][],
+  options: MatrixToObjectOptions | SchemaOptions<RowSchema> = {}
+): Array<Record<string, any>> | SchemaResult<any> {
+  const valid = Array.isArray(matrix) && matrix.length >= 1;
+  const { headers, dataStart } = readHeaders(valid ? matrix : [[]], options);
+  const rows = valid ? matrix.slice(dataStart) : [];
+  const resolved = resolveHeaders(headers, options);
+  if ('schema' in options) {
+    const { top = 0, left = 0 } = options.offset ?? {};
+    return parseObjects(options.schema, resolved, rows.length, (idx, item) => rows[item][idx], (idx, item) => ({
+      row: top + dataStart + item + 1,
+      column: columnLetter(left + idx),
+    }));
+  }
+  if (!valid) return [];
+  return rows.map((row) => toObject(resolved, (idx) => row[idx]));
+}
 
-export function columnMatrixToObjectArray<T = any>(matrix: [string, ...T[]][]): Array<Record<string, T>> {
-  if (!Array.isArray(matrix) || matrix.length < 1) return [];
-  const numObjects = matrix[0].length - 1;
-  const result: Array<Record<string, T>> = [];
+export function columnMatrixToObjectArray<T = any>(matrix: [string, ...T[]][]): Array<Record<string, T>>;
+export function columnMatrixToObjectArray<const S extends RowSchema>(
+  matrix: [string, ...any[]][],
+  options: SchemaOptions<S>
+): SchemaResult<InferRow<S>>;
+export function columnMatrixToObjectArray<T = any>(
+  matrix: [string, ...T[]][],
+  options: MatrixToObjectOptions
+): Array<Record<string, any>>;
+export function columnMatrixToObjectArray<T = any>(
+  matrix: [string, ...T[]][],
+  options: MatrixToObjectOptions | SchemaOptions<RowSchema> = {}
+): Array<Record<string, any>> | SchemaResult<any> {
+  const valid = Array.isArray(matrix) && matrix.length >= 1;
+  const numObjects = valid ? matrix[0].length - 1 : 0;
+  const resolved = resolveHeaders(valid ? matrix.map(([header]) => header) : [], options);
+  if ('schema' in options) {
+    const { top = 0, left = 0 } = options.offset ?? {};
+    return parseObjects(options.schema, resolved, numObjects, (idx, item) => matrix[idx][item + 1], (idx, item) => ({
+      row: top + idx + 1,
+      column: columnLetter(left + item + 1),
+    }));
+  }
+  if (!valid) return [];
+  const result: Array<Record<string, any>> = [];
   for (let i = 1; i <= numObjects; i++) {
-    const obj: Record<string, T> = {} as Record<string, T>;
-    matrix.forEach((row) => {
-      const [header, ...values] = row;
-      obj[header] = row[i];
-    });
-    result.push(obj);
+    result.push(toObject(resolved, (idx) => matrix[idx][i]));
   }
   return result;
-}
\ No newline at end of file
+}
+
+// Lazy matrixToObjectArray for large sheets: rows are pulled from the source (an array, a generator, ExcelJS
+// streaming reader rows, parsed CSV lines...) only when the consumer asks for the next object, which gives
+// backpressure, and only the header rows are buffered. Runs of empty rows are counted, not kept: they come out
+// with null values once a non-empty row follows them, and trailing ones are dropped like trimMatrixEnd does.
+// Readable.from(matrixToObjectStream(rows)) turns it into a Node object stream.
+export async function* matrixToObjectStream(
+  rows: Iterable<any[]> | AsyncIterable<any[]>,
+  options: MatrixToObjectOptions = {}
+): AsyncGenerator<Record<string, any>, void, undefined> {
+  const { headerRow = 0, headerRows = 1 } = options;
+  const headerEnd = headerRow === 'auto' ? HEADER_SCAN_ROWS : headerRow + headerRows;
+  const buffered: any[][] = [];
+  // Empty rows seen since the last non-empty one, emitted once a non-empty row follows them
+  let pending = 0;
+  let resolved: ResolvedHeader[] | undefined;
+
+  const start = (): any[][] => {
+    const { headers, dataStart } = readHeaders(buffered, options);
+    resolved = resolveHeaders(headers, options);
+    return buffered.slice(dataStart);
+  };
+  function* emit(row: any[]): Generator<Record<string, any>> {
+    const cells = Array.isArray(row) ? row : [];
+    if (cells.every((value) => isEmptyValue(value))) {
+      pending++;
+      return;
+    }
+    for (; pending > 0; pending--) {
+      yield toObject(resolved as ResolvedHeader[], () => null);
+    }
+    yield toObject(resolved as ResolvedHeader[], (idx) => cells[idx]);
+  }
+
+  for await (const row of rows) {
+    if (resolved) {
+      yield* emit(row);
+      continue;
+    }
+    buffered.push(row);
+    if (buffered.length >= headerEnd) {
+      for (const dataRow of start()) yield* emit(dataRow);
+    }
+  }
+  if (!resolved && buffered.length > 0) {
+    for (const dataRow of start()) yield* emit(dataRow);
+  }
+}
+
+export function objectArrayToMatrix(
+  objects: Array<Record<string, any>>,
+  options: ObjectToMatrixOptions = {}
+): [string[], ...any[][]] {
+  const flat = flattenObjects(objects, options);
+  const headers = collectHeaders(flat, options);
+  const columns = expandColumns(headers, flat, options);
+  return [
+    columns.map(([header]) => header),
+    ...flat.map((object) => columns.map(([header, position]) => cellValue(object?.[header], position, options))),
+  ];
+}
+
+export function objectArrayToColumnMatrix(
+  objects: Array<Record<string, any>>,
+  options: ObjectToMatrixOptions = {}
+): [string, ...any[]][] {
+  const [headers, ...rows] = objectArrayToMatrix(objects, options);
+  return headers.map((header, idx) => [header, ...rows.map((row) => row[idx])] as [string, ...any[]]);
+}
+
+// Converts a 0-based column index to its spreadsheet letter: 0 → 'A', 27 → 'AB'
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Max number of leading rows looked at by headerRow: 'auto'
+const HEADER_SCAN_ROWS = 20;
+
+// Combines the header rows into one header per column, data starts at dataStart
+function readHeaders(
+  matrix: any[][],
+  { headerRow = 0, headerRows = 1, headerJoiner = '.' }: MatrixToObjectOptions
+): { headers: any[]; dataStart: number } {
+  const start = headerRow === 'auto' ? detectHeaderRow(matrix, headerRows) : headerRow;
+  const rows = matrix.slice(start, start + headerRows).map((row) => (Array.isArray(row) ? row : []));
+  const dataStart = start + headerRows;
+  if (headerRows === 1) return { headers: rows[0] ?? [], dataStart };
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const filled = rows.map((row) => Array.from({ length: width }, (_value, c) => row[c]));
+  // Forward fill the group rows (all but the last), without crossing the boundary of a parent group
+  for (let level = 0; level < filled.length - 1; level++) {
+    for (let c = 1; c < width; c++) {
+      const sameParent = filled.slice(0, level).every((row) => row[c] === row[c - 1]);
+      if (isEmptyValue(filled[level][c]) && sameParent) filled[level][c] = filled[level][c - 1];
+    }
+  }
+  const join = typeof headerJoiner === 'function' ? headerJoiner : (parts: string[]) => parts.join(headerJoiner);
+  const headers = Array.from({ length: width }, (_value, c) => {
+    const parts = filled.map((row) => row[c]).filter((value) => !isEmptyValue(value)).map(String);
+    return parts.length > 0 ? join(parts) : '';
+  });
+  return { headers, dataStart };
+}
+
+// Title rows above the header have fewer filled cells than the header rows: returns the first block of
+// headerRows rows with as many filled columns as any block of the first rows
+function detectHeaderRow(matrix: any[][], headerRows: number): number {
+  const scanned = matrix.slice(0, HEADER_SCAN_ROWS).map((row) => (Array.isArray(row) ? row : []));
+  const counts = scanned.map((_row, start) => {
+    const block = scanned.slice(start, start + headerRows);
+    const width = block.reduce((max, row) => Math.max(max, row.length), 0);
+    let filled = 0;
+    for (let c = 0; c < width; c++) {
+      if (block.some((row) => !isEmptyValue(row[c]))) filled++;
+    }
+    return filled;
+  });
+  return Math.max(0, counts.indexOf(Math.max(0, ...counts)));
+}
+
+function resolveHeaders(
+  headers: any[],
+  { headerPolicy = 'overwrite', nested = false }: MatrixToObjectOptions
+): ResolvedHeader[] {
+  const seen = new Map<string, number>();
+  const taken = new Set(headers.map((header) => String(header)));
+  const resolved = headers.map((header, idx) => {
+    let key = String(header);
+    if ((header == null || key.trim() === '') && headerPolicy !== 'overwrite') {
+      if (headerPolicy === 'error') {
+        throw new Error(`Blank header in column ${columnLetter(idx)}`);
+      }
+      key = uniqueName('Column', idx + 1, taken);
+    } else if (seen.has(key) && headerPolicy === 'error') {
+      const first = columnLetter(seen.get(key) as number);
+      throw new Error(`Duplicate header '${key}' in column ${columnLetter(idx)} (first in column ${first})`);
+    } else if (seen.has(key) && headerPolicy === 'suffix') {
+      key = uniqueName(key, 2, taken);
+    }
+    if (!seen.has(key)) {
+      seen.set(key, idx);
+    }
+    return key;
+  });
+  const counts = new Map<string, number>();
+  resolved.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return resolved.map((key) => ({
+    key,
+    path: nested ? key.split('.') : [key],
+    collect: headerPolicy === 'array' && (counts.get(key) as number) > 1,
+  }));
+}
+
+// 'Rate' → 'Rate2', 'Rate3'... skipping names used by other headers
+function uniqueName(base: string, start: number, taken: Set<string>): string {
+  let n = start;
+  while (taken.has(`${base}${n}`)) n++;
+  const name = `${base}${n}`;
+  taken.add(name);
+  return name;
+}
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function toObject(headers: ResolvedHeader[], valueAt: (idx: number) => any): Record<string, any> {
+  const obj: Record<string, any> = {};
+  headers.forEach(({ path, collect }, idx) => {
+    // Headers come from the data: never walk into or replace the prototype ('__proto__.x', 'constructor.prototype')
+    if (path.some((part) => part === '__proto__' || (path.length > 1 && UNSAFE_KEYS.includes(part)))) return;
+    let target = obj;
+    path.slice(0, -1).forEach((part) => {
+      // A value already at an intermediate key is replaced by the object holding the nested keys
+      if (!isPlainObject(target[part])) target[part] = {};
+      target = target[part];
+    });
+    const last = path[path.length - 1];
+    if (!collect) {
+      target[last] = valueAt(idx);
+    } else if (Array.isArray(target[last])) {
+      target[last].push(valueAt(idx));
+    } else {
+      target[last] = [valueAt(idx)];
+    }
+  });
+  return obj;
+}
+
+function parseObjects(
+  schema: RowSchema,
+  headers: ResolvedHeader[],
+  count: number,
+  valueAt: (idx: number, item: number) => any,
+  locate: (idx: number, item: number) => { row: number; column: string }
+): SchemaResult<any> {
+  const errors: CellError[] = [];
+  const columns = new Map<string, number>();
+  const rowSchema: RowSchema = {};
+  Object.entries(schema).forEach(([key, column]) => {
+    const header = column.header ?? key;
+    const idx = headers.map((resolved) => resolved.key).lastIndexOf(header);
+    if (idx !== -1) {
+      columns.set(key, idx);
+      rowSchema[key] = column;
+    } else {
+      // A missing required column is reported once, not on every row
+      if (column.required) errors.push({ header, message: 'missing column' });
+      rowSchema[key] = { ...column, required: false };
+    }
+  });
+  const rows = Array.from({ length: count }, (_value, item) =>
+    parseRow(
+      rowSchema,
+      (key) => (columns.has(key) ? valueAt(columns.get(key) as number, item) : undefined),
+      (key) => locate(columns.get(key) as number, item),
+      errors
+    )
+  );
+  return { rows, errors };
+}
+
+function flattenObjects(
+  objects: Array<Record<string, any>>,
+  { nested = false }: ObjectToMatrixOptions
+): Array<Record<string, any>> {
+  if (!Array.isArray(objects)) return [];
+  if (!nested) return objects;
+  const flatten = (value: Record<string, any>, prefix: string, result: Record<string, any>) => {
+    Object.entries(value).forEach(([key, item]) => {
+      if (isPlainObject(item) && Object.keys(item).length > 0) {
+        flatten(item, `${prefix}${key}.`, result);
+      } else {
+        result[`${prefix}${key}`] = item;
+      }
+    });
+    return result;
+  };
+  return objects.map((object) => flatten(object ?? {}, '', {}));
+}
+
+function collectHeaders(
+  objects: Array<Record<string, any>>,
+  { headers, keys = 'union', compareHeaders }: ObjectToMatrixOptions
+): string[] {
+  if (headers) return headers;
+  const collected = new Set<string>();
+  (keys === 'first' ? objects.slice(0, 1) : objects).forEach((object) => {
+    Object.keys(object ?? {}).forEach((key) => collected.add(key));
+  });
+  const result = Array.from(collected);
+  return compareHeaders ? result.sort(compareHeaders) : result;
+}
+
+// One [header, position] pair per column, array values take as many repeated columns as the longest array
+function expandColumns(
+  headers: string[],
+  objects: Array<Record<string, any>>,
+  { headerPolicy }: ObjectToMatrixOptions
+): Array<[string, number]> {
+  return headers.flatMap((header) => {
+    const width =
+      headerPolicy === 'array'
+        ? Math.max(1, ...objects.map((object) => (Array.isArray(object?.[header]) ? object[header].length : 1)))
+        : 1;
+    return Array.from({ length: width }, (_value, position) => [header, position] as [string, number]);
+  });
+}
+
+function cellValue(value: any, position: number, { headerPolicy }: ObjectToMatrixOptions): any {
+  if (headerPolicy === 'array' && Array.isArray(value)) return value[position];
+  return position === 0 ? value : undefined;
+}
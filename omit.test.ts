@@ -0,0 +1,80 @@
+import omit from './omit';
+
+const payload = {
+  name: 'sync',
+  connections: [
+    { host: 'db1', credentials: { user: 'a', password: 'x' }, tags: ['prod'] },
+    { host: 'db2', credentials: { user: 'b', password: 'y' } },
+    { host: 'db3' },
+  ],
+  meta: { '.hidden': 1, visible: 2 },
+};
+
+describe('omit', () => {
+  test('should omit standard path', () => {
+    expect(omit(payload, 'name')).toEqual({ connections: payload.connections, meta: payload.meta });
+    expect(omit(payload, 'meta.visible').meta).toEqual({ '.hidden': 1 });
+  });
+
+  test('should omit from every element matched by a wildcard', () => {
+    expect(omit(payload, 'connections.[].credentials.password').connections).toEqual([
+      { host: 'db1', credentials: { user: 'a' }, tags: ['prod'] },
+      { host: 'db2', credentials: { user: 'b' } },
+      { host: 'db3' },
+    ]);
+  });
+
+  test('should honor slices and predicates', () => {
+    expect(omit(payload, 'connections.[?host=="db2"].credentials').connections).toEqual([
+      payload.connections[0],
+      { host: 'db2' },
+      payload.connections[2],
+    ]);
+    expect(omit(payload, 'connections.[1:].host').connections).toEqual([
+      payload.connections[0],
+      { credentials: { user: 'b', password: 'y' } },
+      {},
+    ]);
+  });
+
+  test('should remove elements when the path ends on them', () => {
+    expect(omit(payload, 'connections.[?credentials]').connections).toEqual([{ host: 'db3' }]);
+    expect(omit(payload, 'connections[0]').connections).toEqual(payload.connections.slice(1));
+  });
+
+  test('should address the original positions with several paths into the same array', () => {
+    const list = { a: ['x', 'y', 'z', 'w'] };
+    expect(omit(list, ['a[0]', 'a[1]'])).toEqual({ a: ['z', 'w'] });
+    expect(omit(list, ['a[2]', 'a.[0:1]', 'a[2]'])).toEqual({ a: ['y', 'w'] });
+    expect(omit(list, ['a.[-1:]', 'a[3]', 'a.[0]'])).toEqual({ a: ['y', 'z'] });
+    expect(list.a).toEqual(['x', 'y', 'z', 'w']);
+  });
+
+  test('should omit at any depth with recursive descent', () => {
+    const result = omit(payload, '**.password');
+    expect(result.connections[0].credentials).toEqual({ user: 'a' });
+    expect(result.connections[1].credentials).toEqual({ user: 'b' });
+  });
+
+  test('should handle multiple paths and combineEmpty keys', () => {
+    expect(omit(payload, ['name', 'connections', 'meta..hidden'])).toEqual({ meta: { visible: 2 } });
+  });
+
+  test('should not mutate the input and share untouched branches', () => {
+    const result = omit(payload, 'connections.[].credentials.password');
+    expect(payload.connections[0].credentials?.password).toBe('x');
+    expect(result).not.toBe(payload);
+    expect(result.meta).toBe(payload.meta);
+    expect(result.connections[2]).toBe(payload.connections[2]);
+    expect(result.connections[0].tags).toBe(payload.connections[0].tags);
+  });
+
+  test('should ignore paths that do not match', () => {
+    expect(omit(payload, ['z.y', 'name.[].x', 'meta.[].x'])).toEqual(payload);
+  });
+
+  test('should return empty object for null/undefined input', () => {
+    expect(omit(null, 'a')).toEqual({});
+    expect(omit(undefined, 'a')).toEqual({});
+  });
+});
@@ -0,0 +1,126 @@
+import { parsePaths, ResultObject } from './pick.js';
+import { RECURSIVE_DESCENT, childEntries, isWildcard, matchWildcard } from './wildcard.js';
+
+// Placeholder of a removed array element, not an object so that later paths leave it alone
+const REMOVED = Symbol('removed');
+
+/**
+ * The opposite of pick: returns a copy of the object without the properties addressed by the paths.
+ * Paths use the same grammar as pick, a wildcard removes the property from every matched element.
+ * Everything else is kept, arrays keep their positions unless the path ends on an element
+ * (index, wildcard, slice or predicate), in which case those elements are removed.
+ * The input is never mutated, the result is a new object sharing every untouched branch with the input.
+ * @param object The source object.
+ * @param paths A path string or an array of path strings (e.g., 'connections.[].password').
+ * @returns The object without the omitted properties.
+ */
+function omit<T extends object>(object: T | null | undefined, paths: string | string[]): ResultObject {
+  if (object == null) {
+    return {};
+  }
+
+  // Containers copied during this call, they can be modified in place by later paths
+  const copies = new WeakSet<object>();
+  // Removed array elements are marked and dropped once every path is applied, so that all the paths address
+  // the original positions: ['a[0]', 'a[1]'] removes the first two elements
+  const marked = new Set<any[]>();
+  const result = parsePaths(paths).reduce<any>(
+    (current, keys) => (keys.length > 0 ? removePath(current, keys, 0, copies, marked) : current),
+    copyOnWrite(object, copies)
+  );
+  marked.forEach((array) => {
+    let length = 0;
+    array.forEach((item) => {
+      if (item !== REMOVED) array[length++] = item;
+    });
+    array.length = length;
+  });
+  return result;
+}
+
+function removePath(current: any, keys: string[], index: number, copies: WeakSet<object>, marked: Set<any[]>): any {
+  if (current == null || typeof current !== 'object') {
+    return current;
+  }
+
+  const key = keys[index];
+  const isLast = index === keys.length - 1;
+
+  // Recursive descent: remove the rest of the path at this node and at every depth below it
+  if (key === RECURSIVE_DESCENT) {
+    if (isLast) {
+      return current;
+    }
+    let result = removePath(current, keys, index + 1, copies, marked);
+    childEntries(result).forEach(([childKey, child]) => {
+      const next = removePath(child, keys, index, copies, marked);
+      if (next !== child) {
+        result = copyOnWrite(result, copies);
+        result[childKey] = next;
+      }
+    });
+    return result;
+  }
+
+  // Wildcard key
+  if (isWildcard(key)) {
+    if (!Array.isArray(current)) {
+      return current;
+    }
+    const indices = matchWildcard(current, key).filter((i) => current[i] !== REMOVED);
+    if (isLast) {
+      // Last key, drop the matched elements
+      if (indices.length === 0) {
+        return current;
+      }
+      const result = copyOnWrite(current, copies);
+      indices.forEach((i) => {
+        result[i] = REMOVED;
+      });
+      marked.add(result);
+      return result;
+    }
+    let result = current;
+    indices.forEach((i) => {
+      const next = removePath(result[i], keys, index + 1, copies, marked);
+      if (next !== result[i]) {
+        result = copyOnWrite(result, copies);
+        result[i] = next;
+      }
+    });
+    return result;
+  }
+
+  // Non-wildcard key
+  if (!(key in current)) {
+    return current;
+  }
+  if (isLast) {
+    const result = copyOnWrite(current, copies);
+    if (Array.isArray(result) && /^\d+$/.test(key)) {
+      result[Number(key)] = REMOVED;
+      marked.add(result);
+    } else {
+      delete result[key];
+    }
+    return result;
+  }
+  const next = removePath(current[key], keys, index + 1, copies, marked);
+  if (next === current[key]) {
+    return current;
+  }
+  const result = copyOnWrite(current, copies);
+  result[key] = next;
+  return result;
+}
+
+function copyOnWrite(value: any, copies: WeakSet<object>): any {
+  if (copies.has(value)) {
+    return value;
+  }
+  const copy = Array.isArray(value) ? value.slice() : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+  copies.add(copy);
+  return copy;
+}
+
+export default omit;
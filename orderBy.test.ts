@@ -0,0 +1,55 @@
+import { orderBy } from './orderBy';
+
+const rows = [
+  { id: 1, region: 'North', amount: 10, trader: { name: 'émile' } },
+  { id: 2, region: 'south', amount: 30, trader: { name: 'Zoe' } },
+  { id: 3, region: 'North', amount: null, trader: { name: 'adam' } },
+  { id: 4, region: 'South', amount: 30, trader: {} },
+  { id: 5, region: 'North', amount: 20, trader: { name: 'Émile' } },
+];
+
+const ids = (sorted: Array<{ id: number }>) => sorted.map((row) => row.id);
+
+describe('orderBy', () => {
+  test('should sort by several keys, a leading - sorting descending', () => {
+    expect(ids(orderBy(rows, ['region', '-amount']))).toEqual([5, 1, 3, 2, 4]);
+  });
+
+  test('should be stable and leave the input unchanged', () => {
+    const copy = [...rows];
+    expect(ids(orderBy(rows, '-amount'))).toEqual([2, 4, 5, 1, 3]);
+    expect(rows).toEqual(copy);
+  });
+
+  test('should put null and undefined last in both orders unless nulls is first', () => {
+    expect(ids(orderBy(rows, 'amount'))).toEqual([1, 5, 2, 4, 3]);
+    expect(ids(orderBy(rows, 'trader.name'))).toEqual([3, 1, 5, 2, 4]);
+    expect(ids(orderBy(rows, '-trader.name'))).toEqual([2, 5, 1, 3, 4]);
+    expect(ids(orderBy(rows, 'amount', { nulls: 'first' }))).toEqual([3, 1, 5, 2, 4]);
+  });
+
+  test('should compare strings with the collator of the locale', () => {
+    const words = [{ w: 'z' }, { w: 'ä' }, { w: 'a' }];
+    expect(orderBy(words, 'w', { locale: 'de' }).map((row) => row.w)).toEqual(['a', 'ä', 'z']);
+    expect(orderBy(words, 'w', { locale: 'sv' }).map((row) => row.w)).toEqual(['a', 'z', 'ä']);
+  });
+
+  test('should compare digit runs as numbers unless numeric is false', () => {
+    const items = [{ name: 'item10' }, { name: 'item2' }];
+    expect(orderBy(items, 'name').map((row) => row.name)).toEqual(['item2', 'item10']);
+    expect(orderBy(items, 'name', { numeric: false }).map((row) => row.name)).toEqual(['item10', 'item2']);
+  });
+
+  test('should compare dates by time and mixed types by type', () => {
+    const dates = [{ d: new Date('2024-03-01') }, { d: new Date('2023-12-31') }];
+    expect(orderBy(dates, 'd').map((row) => row.d.getFullYear())).toEqual([2023, 2024]);
+    const mixed = [{ v: 'b' }, { v: 2 }, { v: true }, { v: 10 }, { v: 'a' }];
+    expect(orderBy(mixed, 'v').map((row) => row.v)).toEqual([true, 2, 10, 'a', 'b']);
+  });
+
+  test('should accept key objects for paths starting with -', () => {
+    const odd = [{ '-x': 2 }, { '-x': 1 }];
+    expect(orderBy(odd, [{ path: '["-x"]' }])).toEqual([{ '-x': 1 }, { '-x': 2 }]);
+    expect(orderBy(odd, [{ path: '["-x"]', order: 'desc' }])).toEqual(odd);
+  });
+});
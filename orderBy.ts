@@ -0,0 +1,81 @@
+import compilePath from './compilePath';
+
+export type SortOrder = 'asc' | 'desc';
+
+// For paths starting with '-', or to build keys programmatically
+export interface SortKey {
+  path: string;
+  order?: SortOrder;
+}
+
+export interface OrderByOptions {
+  // Locale(s) used to compare strings, default: the runtime locale
+  locale?: string | string[];
+  // Compare digit runs as numbers ('item2' before 'item10'), default true
+  numeric?: boolean;
+  // Where null, undefined and NaN go whatever the order of the key, default 'last'
+  nulls?: 'first' | 'last';
+}
+
+// Sorts rows by get paths in priority order, a leading '-' sorting descending: ['region', '-amount'].
+// The sort is stable and returns a new array. Strings are compared with Intl.Collator, numbers, dates and
+// booleans by value, values of different types by type (booleans, numbers, dates, strings, anything else).
+export function orderBy<T extends object>(
+  rows: T[],
+  keys: string | Array<string | SortKey>,
+  options: OrderByOptions = {}
+): T[] {
+  const { locale, numeric = true, nulls = 'last' } = options;
+  const collator = new Intl.Collator(locale, { numeric });
+  const sortKeys = (Array.isArray(keys) ? keys : [keys]).map((key) => {
+    const { path, order = 'asc' } = typeof key === 'string' ? parseKey(key) : key;
+    return { read: compilePath(path), direction: order === 'desc' ? -1 : 1 };
+  });
+
+  const decorated = (Array.isArray(rows) ? rows : []).map((row, index) => ({
+    row,
+    index,
+    values: sortKeys.map(({ read }) => read(row)),
+  }));
+  decorated.sort((a, b) => {
+    for (let i = 0; i < sortKeys.length; i++) {
+      const leftMissing = isMissing(a.values[i]);
+      const rightMissing = isMissing(b.values[i]);
+      if (leftMissing || rightMissing) {
+        if (leftMissing && rightMissing) continue;
+        return (leftMissing ? 1 : -1) * (nulls === 'last' ? 1 : -1);
+      }
+      const result = compareValues(a.values[i], b.values[i], collator);
+      if (result !== 0) return result * sortKeys[i].direction;
+    }
+    return a.index - b.index;
+  });
+  return decorated.map(({ row }) => row);
+}
+
+function parseKey(key: string): SortKey {
+  return key.startsWith('-') ? { path: key.slice(1), order: 'desc' } : { path: key, order: 'asc' };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'number' && Number.isNaN(value));
+}
+
+function typeRank(value: unknown): number {
+  if (typeof value === 'boolean') return 0;
+  if (typeof value === 'number' || typeof value === 'bigint') return 1;
+  if (value instanceof Date) return 2;
+  if (typeof value === 'string') return 3;
+  return 4;
+}
+
+// Objects and arrays are all equal, so they keep their input order
+function compareValues(left: any, right: any, collator: Intl.Collator): number {
+  const rank = typeRank(left) - typeRank(right);
+  if (rank !== 0) return rank;
+  if (typeof left === 'string') return collator.compare(left, right);
+  if (typeRank(left) === 4) return 0;
+  const a = left instanceof Date ? left.getTime() : left;
+  const b = right instanceof Date ? right.getTime() : right;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
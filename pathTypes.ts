@@ -0,0 +1,250 @@
+/**
+ * Compile-time version of the superToPath grammar, used to type get and pick.
+ *
+ * ParsePath turns a path literal into a tuple of segments:
+ *   'a.b[0]["c.d"]'      → ['a', 'b', '0', 'c.d']
+ *   'a.[].b.[1:3].c'     → ['a', Wildcard, 'b', Wildcard, 'c']
+ *   'a.[?type=="fx"].b'  → ['a', Wildcard, 'b']
+ *   '**.formula'         → [Descent, 'formula']
+ *   'a..b'               → ['a', '.b'] (empty segments are combined like combineEmpty does)
+ * Malformed paths (unclosed brackets, a key glued to a closing bracket) parse to never.
+ * Paths typed as plain string, and objects typed as any, fall back to any.
+ */
+
+declare const wildcardSegment: unique symbol;
+declare const descentSegment: unique symbol;
+
+// '[]', '[1:3]' and '[?expr]' segments
+type Wildcard = typeof wildcardSegment;
+// '**' segment
+type Descent = typeof descentSegment;
+
+type Segment = string | Wildcard | Descent;
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+type IsSlice<S extends string> = S extends `${string}:${string}` ? OnlySliceChars<S> : false;
+
+type OnlySliceChars<S extends string> = S extends ''
+  ? true
+  : S extends `${Digit | '-' | ':' | ' '}${infer Rest}`
+    ? OnlySliceChars<Rest>
+    : false;
+
+type IsWildcardSpec<S extends string> = S extends ''
+  ? true
+  : S extends `?${string}`
+    ? true
+    : IsSlice<S>;
+
+type Unquote<S extends string> = S extends `"${infer K}"`
+  ? K
+  : S extends `'${infer K}'`
+    ? K
+    : S;
+
+// Text right after a '.' separator (or at the start of the path). Prefix collects empty segments.
+type ParseSegment<S extends string, Prefix extends string, Acc extends Segment[]> = S extends ''
+  ? [...Acc, `${Prefix}.`]
+  : S extends `.${infer Rest}`
+    ? ParseSegment<Rest, `${Prefix}.`, Acc>
+    : S extends `[${infer Inner}]${infer Rest}`
+      ? IsWildcardSpec<Inner> extends true
+        ? Rest extends '' | `.${string}`
+          ? AfterWildcard<Rest, Prefix extends '' ? Acc : [...Acc, Prefix]>
+          : never
+        : AfterKey<Rest, [...Acc, `${Prefix}${Unquote<Inner>}`]>
+      : ParseKey<S, Prefix, Acc>;
+
+type AfterWildcard<S extends string, Acc extends Segment[]> = S extends `.${infer Rest}`
+  ? ParseSegment<Rest, '', [...Acc, Wildcard]>
+  : [...Acc, Wildcard];
+
+// A plain key, up to the next '.' or '['
+type ParseKey<S extends string, Prefix extends string, Acc extends Segment[]> = S extends `${infer Head}.${infer Tail}`
+  ? Head extends `${infer Key}[${infer Inner}`
+    ? KeyWithBrackets<Key, `[${Inner}.${Tail}`, Prefix, Acc>
+    : Head extends `${string}]${string}`
+      ? never
+      : ParseSegment<Tail, '', [...Acc, KeyOrStar<`${Prefix}${Head}`>]>
+  : S extends `${infer Key}[${infer Inner}`
+    ? KeyWithBrackets<Key, `[${Inner}`, Prefix, Acc>
+    : S extends `${string}]${string}`
+      ? never
+      : [...Acc, KeyOrStar<`${Prefix}${S}`>];
+
+type KeyOrStar<K extends string> = K extends '**' ? Descent : K;
+
+type KeyWithBrackets<
+  Key extends string,
+  S extends string,
+  Prefix extends string,
+  Acc extends Segment[],
+> = Key extends '' ? never : ParseBrackets<S, [...Acc, `${Prefix}${Key}`]>;
+
+// Index or quoted key brackets directly after a key, e.g. 'b[0]' or 'a["b.c"]'
+type ParseBrackets<S extends string, Acc extends Segment[]> = S extends `["${infer Key}"]${infer Rest}`
+  ? AfterKey<Rest, [...Acc, Key]>
+  : S extends `['${infer Key}']${infer Rest}`
+    ? AfterKey<Rest, [...Acc, Key]>
+    : S extends `[${infer Index}]${infer Rest}`
+      ? Index extends `${number}`
+        ? AfterKey<Rest, [...Acc, Index]>
+        : never
+      : never;
+
+type AfterKey<S extends string, Acc extends Segment[]> = S extends ''
+  ? Acc
+  : S extends `.${infer Rest}`
+    ? ParseSegment<Rest, '', Acc>
+    : S extends `[${string}`
+      ? ParseBrackets<S, Acc>
+      : never;
+
+type ParsePath<P extends string> = P extends '' ? [] : ParseSegment<P, '', []>;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// any, or an object type without known keys (e.g. when null is passed and T falls back to object)
+type IsLoose<T> = IsAny<T> extends true ? true : [keyof T] extends [never] ? true : false;
+
+type Element<V> = NonNullable<V> extends readonly (infer E)[] ? E : never;
+
+// Type of property K of V, never when V has no such property
+type Lookup<V, K extends string> = IsAny<V> extends true
+  ? any
+  : NonNullable<V> extends readonly any[]
+    ? K extends `${number}`
+      ? NonNullable<V>[number]
+      : never
+    : NonNullable<V> extends object
+      ? K extends keyof NonNullable<V>
+        ? NonNullable<V>[K]
+        : never
+      : never;
+
+type HasWildcard<Segments extends Segment[]> = Wildcard extends Segments[number]
+  ? true
+  : Descent extends Segments[number]
+    ? true
+    : false;
+
+// Value at a path without wildcards
+type ValueAt<V, Segments extends Segment[]> = Segments extends [infer K extends string, ...infer Rest extends Segment[]]
+  ? ValueAt<Lookup<V, K>, Rest>
+  : Segments extends []
+    ? V
+    : never;
+
+// Shape returned by processWildcardGet: one array level per wildcard, a trailing key wrapped in an array
+type WildcardValue<V, Segments extends Segment[]> = IsAny<V> extends true
+  ? any
+  : Segments extends [infer S, ...infer Rest extends Segment[]]
+    ? S extends Descent
+      ? any[]
+      : S extends Wildcard
+        ? [Element<V>] extends [never]
+          ? never
+          : Rest extends []
+            ? Element<V>[]
+            : ArrayOf<WildcardValue<Element<V>, Rest>>
+        : S extends string
+          ? Rest extends []
+            ? ArrayOf<Lookup<V, S>>
+            : WildcardValue<Lookup<V, S>, Rest>
+          : never
+    : never;
+
+// Shape built by processWildcardPath: nested objects, with arrays for wildcards and indexes
+type WildcardProjection<V, Segments extends Segment[]> = IsAny<V> extends true
+  ? any
+  : Segments extends [infer S, ...infer Rest extends Segment[]]
+    ? S extends Descent
+      ? any
+      : S extends Wildcard
+        ? [Element<V>] extends [never]
+          ? never
+          : Rest extends []
+            ? Element<V>[]
+            : ArrayOf<WildcardProjection<Element<V>, Rest>>
+        : S extends string
+          ? WrapKey<V, S, Rest extends [] ? NonNullable<Lookup<V, S>> : WildcardProjection<Lookup<V, S>, Rest>>
+          : never
+    : never;
+
+type WrapKey<V, K extends string, Inner> = [Inner] extends [never]
+  ? never
+  : NonNullable<V> extends readonly any[]
+    ? Inner[]
+    : { [Q in K]: Inner };
+
+// Keeps never (invalid path) from turning into never[]
+type ArrayOf<T> = [T] extends [never] ? never : T[];
+
+type Last<Segments extends Segment[]> = Segments extends [...any[], infer L] ? L : never;
+
+type IsValid<T, Segments extends Segment[]> = [Segments] extends [never]
+  ? false
+  : HasWildcard<Segments> extends true
+    ? [WildcardValue<T, Segments>] extends [never] ? false : true
+    : [ValueAt<T, Segments>] extends [never] ? false : true;
+
+/**
+ * Resolves to P when P is a valid path into T, never otherwise (so the argument fails to type-check).
+ */
+type ValidPath<T, P extends string> = IsLoose<T> extends true
+  ? P
+  : string extends P
+    ? P
+    : IsValid<T, ParsePath<P>> extends true
+      ? P
+      : never;
+
+/**
+ * Return type of get(object, path, defaultValue): the value at the path (or the default),
+ * or nested arrays of values for wildcard paths (which return [] rather than undefined when nothing matches).
+ */
+type GetResult<T, P extends string, D = undefined> = IsLoose<T> extends true
+  ? any
+  : string extends P
+    ? any
+    : HasWildcard<ParsePath<P>> extends true
+      ? WildcardValue<T, ParsePath<P>> | Exclude<D, undefined>
+      : ValueAt<T, ParsePath<P>> | D;
+
+type PickOne<T, P extends string> = IsLoose<T> extends true
+  ? { [key: string]: any }
+  : string extends P
+    ? { [key: string]: any }
+    : HasWildcard<ParsePath<P>> extends true
+      ? WildcardProjection<T, ParsePath<P>>
+      : Last<ParsePath<P>> extends infer K extends string
+        ? { [Q in K]: NonNullable<ValueAt<T, ParsePath<P>>> }
+        : never;
+
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Return type of pick(object, paths): the projected shapes of every path merged into one object.
+ */
+type PickResult<T, P extends readonly string[]> = P[number] extends never
+  ? {}
+  : Simplify<UnionToIntersection<{ [I in keyof P]: PickOne<T, P[I] & string> }[number]>>;
+
+/**
+ * Checks every path of a pick call, see ValidPath.
+ */
+type ValidPaths<T, P extends readonly string[]> = { [I in keyof P]: ValidPath<T, P[I] & string> };
+
+export type {
+  Descent,
+  GetResult,
+  ParsePath,
+  PickResult,
+  Segment,
+  ValidPath,
+  ValidPaths,
+  Wildcard,
+};
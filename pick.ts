@@ -1,24 +1,43 @@
-import toPath from './toPath.js';
+import { cachedToPath } from './toPath.js';
+import type { PickResult, ValidPath, ValidPaths } from './pathTypes.js';
+import { RECURSIVE_DESCENT, childEntries, hasWildcard, isWildcard, matchWildcard } from './wildcard.js';
 
 interface ResultObject {
   [key: string]: any;
 }
 
+/**
+ * Builds an object with the values at the given paths, keeping the nesting of wildcard paths.
+ * For path literals the result shape is inferred from the object type, and a path that does not exist
+ * on the object type is a type error.
+ */
+function pick<T extends object, P extends string>(
+  object: T | null | undefined,
+  paths: P & ValidPath<T, P>
+): PickResult<T, [P]>;
+function pick<T extends object, P extends string[]>(
+  object: T | null | undefined,
+  paths: ValidPaths<T, P>
+): PickResult<T, P>;
 function pick<T extends object>(object: T | null | undefined, paths: string | string[]): ResultObject {
+  return pickByKeys(object, parsePaths(paths));
+}
+
+/**
+ * pick for paths already parsed by parsePaths.
+ */
+function pickByKeys(object: any, keysList: string[][]): ResultObject {
   if (object == null) {
     return {};
   }
 
-  const props = Array.isArray(paths) ? paths : [paths];
-  const result: ResultObject = {};
+  // A root array keeps its shape: pick(rows, '[].a') is an array, not an object with index keys
+  const result: ResultObject = Array.isArray(object) ? [] : {};
 
-  props.forEach((path) => {
-    const keys = toPath(path);
-
-    // Handle paths with wildcards
-    if (keys.includes('[]')) {
-      const rootKey = keys[0];
-      result[rootKey] = processWildcardPath(object, keys, 0);
+  keysList.forEach((keys) => {
+    // Handle paths with wildcards ('[]', slices, predicates and '**')
+    if (hasWildcard(keys)) {
+      Object.assign(result, processWildcardPath(object, keys, 0));
     } else {
       // Standard pick behavior
       let current: any = object;
@@ -36,22 +55,64 @@ function pick<T extends object>(object: T | null | undefined, paths: string | st
   return result;
 }
 
-function processWildcardPath(current: any, keys: string[], index: number): any {
+/**
+ * Parses one path or a list of paths the way pick reads them: superToPath grammar, where
+ * '[]'/slice/predicate segments fan out over arrays and empty segments become '.'-prefixed keys
+ * ('a..b' → ['a', '.b']).
+ * @param paths A path string or an array of path strings.
+ * @returns One array of keys per path.
+ */
+function parsePaths(paths: string | string[]): string[][] {
+  const props = Array.isArray(paths) ? paths : [paths];
+  return props.map((path) => cachedToPath(path));
+}
+
+/**
+ * Builds the projection of a single path, nested the same way as the source.
+ * @param current The current object or array to process.
+ * @param keys Keys produced by superToPath.
+ * @param index The current index in keys.
+ * @param created When set, arrays keep matched elements at their original positions and every container
+ * built is tracked, so projections of several paths can be merged (see mergeMatches and compactMatches).
+ * @param alias Output key used instead of the last key of the path.
+ * @returns The projection, or undefined if nothing matched.
+ */
+function processWildcardPath(
+  current: any,
+  keys: string[],
+  index: number,
+  created?: WeakSet<object>,
+  alias?: string
+): any {
   if (current == null || index >= keys.length) {
     return undefined;
   }
 
   const key = keys[index];
-  if (key !== '[]') {
-    // Non-wildcard key
+  if (key === RECURSIVE_DESCENT) {
+    return processRecursiveDescent(current, keys, index, created, alias);
+  }
+
+  if (!isWildcard(key)) {
+    // Non-wildcard key, an index into an array keeps the array shape
+    const outputKey = alias !== undefined && index === keys.length - 1 ? alias : key;
+    const wrap = (value: any) => {
+      if (!Array.isArray(current)) {
+        return track({ [outputKey]: value }, created);
+      }
+      // Below '**' the element stays at its original position until the result is compacted
+      const array: any[] = [];
+      array[created ? Number(key) : 0] = value;
+      return track(array, created);
+    };
     const nextValue = current[key];
     if (index === keys.length - 1) {
       // Last key, return value if defined
-      return nextValue !== undefined ? { [key]: nextValue } : undefined;
+      return nextValue !== undefined ? wrap(nextValue) : undefined;
     }
     // Recurse to next key
-    const result = processWildcardPath(nextValue, keys, index + 1);
-    return result !== undefined ? { [key]: result } : undefined;
+    const result = processWildcardPath(nextValue, keys, index + 1, created, alias);
+    return result !== undefined ? wrap(result) : undefined;
   }
 
   // Wildcard key
@@ -59,101 +120,110 @@ function processWildcardPath(current: any, keys: string[], index: number): any {
     return undefined;
   }
 
-  // Process each array element
-  const result = current
-    .map((item: any) => processWildcardPath(item, keys, index + 1))
+  const indices = matchWildcard(current, key);
+  if (created) {
+    // Below '**' the matched elements stay at their original positions until the result is compacted
+    const result: any[] = [];
+    indices.forEach((i) => {
+      const value =
+        index === keys.length - 1 ? current[i] : processWildcardPath(current[i], keys, index + 1, created, alias);
+      if (value !== undefined) {
+        result[i] = value;
+      }
+    });
+    return result.length > 0 ? track(result, created) : undefined;
+  }
+
+  if (index === keys.length - 1) {
+    // Last key, keep the matched elements
+    return indices.length > 0 ? indices.map((i) => current[i]) : undefined;
+  }
+
+  // Process each matched array element
+  const result = indices
+    .map((i) => processWildcardPath(current[i], keys, index + 1))
     .filter((item: any) => item !== undefined);
 
   return result.length > 0 ? result : undefined;
 }
 
-function superPick<T extends object>(object: T | null | undefined, paths: string | string[]): ResultObject {
-  if (object == null) {
-    return {};
+/**
+ * Matches the rest of the path at the current node and at every depth below it ('**'),
+ * keeping each matched branch at its original place in the result.
+ * Containers built here are tracked in created, so branches matched at different depths can be merged
+ * without touching values copied from the source. The outermost '**' compacts the arrays afterwards.
+ */
+function processRecursiveDescent(
+  current: any,
+  keys: string[],
+  index: number,
+  created?: WeakSet<object>,
+  alias?: string
+): any {
+  const tracked = created || new WeakSet<object>();
+
+  // A trailing '**' keeps the whole node
+  if (index === keys.length - 1) {
+    return current;
   }
 
-  // Convert paths to array of path objects
-  const props = Array.isArray(paths) ? paths : [paths];
-  const pathArray: PathObject[] = props.map((p) => ({
-    path: superToPath(p),
-  }));
-
-  const result: ResultObject = {};
-
-  // Iterate over first-level properties of the object
-  for (const key in object) {
-    if (Object.prototype.hasOwnProperty.call(object, key)) {
-      // Check if key matches any path's first segment or wildcard for arrays
-      if (
-        pathArray.some((p) => p.path[0] === key || (p.path[0] === '[]' && Array.isArray(object[key])))
-      ) {
-        // Match found: recursively process paths
-        result[key] = processPaths(object[key], pathArray, 0);
-      } else {
-        // No match: set undefined
-        result[key] = undefined;
-      }
+  let result = processWildcardPath(current, keys, index + 1, tracked, alias);
+  childEntries(current).forEach(([childKey, child]) => {
+    const match = processWildcardPath(child, keys, index, tracked, alias);
+    if (match !== undefined) {
+      const branch: any = Array.isArray(current) ? [] : {};
+      branch[childKey] = match;
+      result = mergeMatches(result, track(branch, tracked), tracked);
     }
-  }
+  });
 
-  return result;
+  return created || result === undefined ? result : compactMatches(result, tracked);
 }
 
 /**
- * Recursively processes paths for a given object level, handling wildcards and matching paths.
- * @param current The current object or array to process.
- * @param pathArray Array of path objects containing superToPath results.
- * @param index The current index in the path arrays.
- * @returns The processed result or undefined if no match.
+ * Deep merges two projections built with the same created set, matching array elements by original position.
  */
-function processPaths(current: any, pathArray: PathObject[], index: number): any {
-  if (current == null) {
-    return undefined;
+function mergeMatches(target: any, source: any, created: WeakSet<object>): any {
+  if (target === undefined) {
+    return source;
   }
-
-  // Filter paths that are still valid at this level
-  const validPaths = pathArray.filter((p) => p.path.length > index);
-  if (validPaths.length === 0) {
-    return undefined;
+  if (source === undefined) {
+    return target;
   }
-
-  // Handle wildcard paths
-  const wildcardPaths = validPaths.filter((p) => p.path[index] === '[]');
-  if (wildcardPaths.length > 0 && Array.isArray(current)) {
-    // Process each array element for wildcard paths
-    const result = current
-      .map((item: any) => processPaths(item, wildcardPaths, index + 1))
-      .filter((item: any) => item !== undefined);
-    return result.length > 0 ? result : undefined;
+  // A value copied from the source already contains every branch matched below it
+  if (!created.has(target) || !created.has(source)) {
+    return created.has(target) ? source : target;
   }
+  Object.keys(source).forEach((key) => {
+    target[key] = mergeMatches(target[key], source[key], created);
+  });
+  return target;
+}
 
-  // Handle non-wildcard paths
-  const matchingPaths = validPaths.filter(
-    (p) => p.path[index] !== '[]' && (current[p.path[index]] !== undefined || index === p.path.length - 1)
-  );
-  if (matchingPaths.length === 0) {
-    return undefined;
+/**
+ * Removes the holes left by unmatched elements from the arrays of a projection built with created.
+ */
+function compactMatches(value: any, created: WeakSet<object>): any {
+  if (!created.has(value)) {
+    return value;
   }
-
-  const result: ResultObject = {};
-  for (const { path } of matchingPaths) {
-    const key = path[index];
-    if (index === path.length - 1) {
-      // Last key: include value if it exists
-      if (current[key] !== undefined) {
-        result[key] = current[key];
-      }
-    } else {
-      // Not last key: recurse
-      const subResult = processPaths(current[key], matchingPaths, index + 1);
-      if (subResult !== undefined) {
-        result[key] = subResult;
-      }
-    }
+  if (Array.isArray(value)) {
+    // filter skips the holes left by unmatched elements
+    return value.filter(() => true).map((item) => compactMatches(item, created));
   }
-
-  return Object.keys(result).length > 0 ? result : undefined;
+  Object.keys(value).forEach((key) => {
+    value[key] = compactMatches(value[key], created);
+  });
+  return value;
 }
 
+function track<V extends object>(value: V, created?: WeakSet<object>): V {
+  if (created) {
+    created.add(value);
+  }
+  return value;
+}
 
+export { compactMatches, mergeMatches, parsePaths, pickByKeys, processWildcardPath, track };
+export type { ResultObject };
 export default pick;
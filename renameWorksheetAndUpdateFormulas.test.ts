@@ -0,0 +1,150 @@
+import * as ExcelJS from 'exceljs';
+import renameWorksheetAndUpdateFormulas from './renameWorksheetAndUpdateFormulas';
+
+function sampleWorkbook(): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const data = workbook.addWorksheet('Sheet1');
+  data.getCell('A1').value = 1;
+  workbook.addWorksheet('Sheet10').getCell('A1').value = 10;
+  const report = workbook.addWorksheet('Report');
+  report.getCell('A1').value = { formula: 'Sheet1!A1+Sheet10!A1', result: 11 };
+  report.getCell('A2').value = { formula: '"Sheet1!A1"&Sheet1!A1', result: 'Sheet1!A11' };
+  report.getCell('A3').value = { formula: 'Sheet1!A1*2', result: 2, shareType: 'shared', ref: 'A3:A4' } as any;
+  report.getCell('A4').value = { sharedFormula: 'A3', result: 0 } as any;
+  report.getCell('A5').value = { text: 'Go', hyperlink: '#Sheet1!A1' };
+  report.getCell('B1').dataValidation = { type: 'list', formulae: ['Sheet1!$A$1:$A$3'] };
+  report.addConditionalFormatting({
+    ref: 'A1:A5',
+    rules: [{ type: 'expression', priority: 1, formulae: ['A1>Sheet1!$A$1'], style: {} }],
+  });
+  workbook.definedNames.add('Sheet1!$A$1:$A$3', 'Inputs');
+  return workbook;
+}
+
+describe('renameWorksheetAndUpdateFormulas', () => {
+  test('should update formulas, validations, conditional formats, links and defined names', async () => {
+    const workbook = sampleWorkbook();
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', "Bob's Data");
+    const report = workbook.getWorksheet('Report') as ExcelJS.Worksheet;
+
+    expect(workbook.getWorksheet("Bob's Data")?.getCell('A1').value).toBe(1);
+    expect(report.getCell('A1').formula).toBe("'Bob''s Data'!A1+Sheet10!A1");
+    expect(report.getCell('A2').formula).toBe(`"Sheet1!A1"&'Bob''s Data'!A1`);
+    expect(report.getCell('A3').value).toEqual({
+      formula: "'Bob''s Data'!A1*2",
+      result: 2,
+      shareType: 'shared',
+      ref: 'A3:A4',
+    });
+    expect(report.getCell('A4').formula).toBe("'Bob''s Data'!A2*2");
+    expect(report.getCell('A5').hyperlink).toBe("#'Bob''s Data'!A1");
+    expect(report.getCell('B1').dataValidation.formulae).toEqual(["'Bob''s Data'!$A$1:$A$3"]);
+    expect((report as any).conditionalFormattings[0].rules[0]).toMatchObject({ formulae: ["A1>'Bob''s Data'!$A$1"] });
+    expect(workbook.definedNames.getRanges('Inputs').ranges).toEqual(["'Bob''s Data'!$A$1:$A$3"]);
+  });
+
+  test('should rename a worksheet and update simple formula references', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet1 = workbook.addWorksheet('Sheet1');
+    const sheet2 = workbook.addWorksheet('Sheet2');
+    sheet1.getCell('A1').value = { formula: 'Sheet2!B1', result: 42 };
+    sheet2.getCell('A1').value = { formula: 'Sheet1!A1+10', result: 52 };
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
+
+    expect(workbook.getWorksheet('DataSheet')).toBe(sheet1);
+    expect(workbook.getWorksheet('Sheet1')).toBeUndefined();
+    expect(sheet1.getCell('A1').formula).toBe('Sheet2!B1');
+    expect(sheet2.getCell('A1').formula).toBe('DataSheet!A1+10');
+    expect(sheet2.getCell('A1').result).toBe(52);
+  });
+
+  test('should quote and unquote sheet names as needed', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Sheet One');
+    const report = workbook.addWorksheet('Report');
+    report.getCell('A1').value = { formula: "'Sheet One'!A1", result: 100 };
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet One', 'Data Sheet');
+    expect(report.getCell('A1').formula).toBe("'Data Sheet'!A1");
+    expect(report.getCell('A1').result).toBe(100);
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Data Sheet', 'Summary');
+    expect(report.getCell('A1').formula).toBe('Summary!A1');
+  });
+
+  test('should update shared formulas through their master cell', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Sheet1');
+    const sheet2 = workbook.addWorksheet('Sheet2');
+    sheet2.getCell('A1').value = { formula: 'Sheet1!A1*2', result: 20, ref: 'A1:A2', shareType: 'shared' } as any;
+    sheet2.getCell('A2').value = { sharedFormula: 'A1', result: 20 };
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
+
+    expect(sheet2.getCell('A1').formula).toBe('DataSheet!A1*2');
+    expect(sheet2.getCell('A2').value).toEqual({ sharedFormula: 'A1', result: 20 });
+    expect(sheet2.getCell('A2').formula).toBe('DataSheet!A2*2');
+  });
+
+  test('should update 3D references', async () => {
+    const workbook = new ExcelJS.Workbook();
+    ['Sheet1', 'Sheet2', 'Sheet3'].forEach((name) => workbook.addWorksheet(name));
+    const report = workbook.addWorksheet('Report');
+    report.getCell('A1').value = { formula: 'SUM(Sheet1:Sheet3!A1)', result: 0 };
+    report.getCell('A2').value = { formula: "SUM('Sheet1:Sheet3'!B1)", result: 0 };
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet3', 'Final');
+    expect(report.getCell('A1').formula).toBe('SUM(Sheet1:Final!A1)');
+    expect(report.getCell('A2').formula).toBe('SUM(Sheet1:Final!B1)');
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'Q 1');
+    expect(report.getCell('A1').formula).toBe("SUM('Q 1:Final'!A1)");
+  });
+
+  test('should rename sheets whose names hold apostrophes and regex metacharacters', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet("O'Brien (v2)");
+    workbook.addWorksheet('a.b+c');
+    const report = workbook.addWorksheet('Report');
+    report.getCell('A1').value = { formula: "'O''Brien (v2)'!A1+'a.b+c'!A1", result: 0 };
+    report.getCell('A2').value = { formula: "'O''Brien (v3)'!A1+'aXb+c'!A1", result: 0 };
+
+    await renameWorksheetAndUpdateFormulas(workbook, "O'Brien (v2)", 'Brien');
+    await renameWorksheetAndUpdateFormulas(workbook, 'a.b+c', "d'e");
+
+    expect(report.getCell('A1').formula).toBe("Brien!A1+'d''e'!A1");
+    expect(report.getCell('A2').formula).toBe("'O''Brien (v3)'!A1+'aXb+c'!A1");
+  });
+
+  test('should not modify formulas that do not reference the renamed sheet', async () => {
+    const workbook = new ExcelJS.Workbook();
+    ['Sheet1', 'Sheet10', 'MySheet1', 'Sheet1 (2)'].forEach((name) => workbook.addWorksheet(name));
+    const report = workbook.addWorksheet('Report');
+    const formulas = [
+      'B1+C1',
+      'Sheet10!A1+MySheet1!A1',
+      "'Sheet1 (2)'!A1",
+      '"Sheet1!A1"&"\'Sheet1\'!A1"',
+      'SUM(Table1[Sheet1])+Table1[[#This Row],[Sheet1!]]',
+      "[1]Sheet1!A1+'[Book.xlsx]Sheet1'!A1",
+    ];
+    formulas.forEach((formula, i) => {
+      report.getCell(i + 1, 1).value = { formula, result: 30 };
+    });
+
+    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
+
+    expect(formulas.map((_formula, i) => report.getCell(i + 1, 1).formula)).toEqual(formulas);
+    expect(report.getCell('A1').result).toBe(30);
+  });
+
+  test('should reject unknown sheets and existing names', async () => {
+    await expect(renameWorksheetAndUpdateFormulas(sampleWorkbook(), 'Missing', 'X')).rejects.toThrow(
+      "Worksheet 'Missing' not found"
+    );
+    await expect(renameWorksheetAndUpdateFormulas(sampleWorkbook(), 'Sheet1', 'report')).rejects.toThrow(
+      'Worksheet name already exists: report'
+    );
+  });
+});
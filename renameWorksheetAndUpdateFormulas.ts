@@ -1,7 +1,16 @@
 import * as ExcelJS from 'exceljs';
+import { renameSheetInFormula } from './formulaTokenizer';
+
+// Worksheet state that ExcelJS keeps out of its typings
+interface WorksheetInternals {
+  // Validations by cell address, the cells of a range share one validation object
+  dataValidations: { model: Record<string, ExcelJS.DataValidation | undefined> };
+  conditionalFormattings: ExcelJS.ConditionalFormattingOptions[];
+}
 
 /**
- * Renames a worksheet and updates all formula references across the workbook
+ * Renames a worksheet and updates all formula references across the workbook: cell formulas, defined names,
+ * data validations, conditional formatting rules and links to cells of the sheet.
  * @param workbook The ExcelJS workbook
  * @param oldSheetName The current name of the worksheet
  * @param newSheetName The new name for the worksheet
@@ -17,123 +26,65 @@ async function renameWorksheetAndUpdateFormulas(
     throw new Error(`Worksheet '${oldSheetName}' not found`);
   }
 
-  // Rename the worksheet
+  // Rename the worksheet, ExcelJS rejects invalid and existing names
   worksheet.name = newSheetName;
 
-  // Function to update formula references
-  const updateFormula = (formula: string): string => {
-    // Create a regex to match the old sheet name in formulas
-    // Handles cases where sheet name is followed by ! or is quoted
-    const sheetNameRegex = new RegExp(`(['"]?)${oldSheetName}\\1!`, 'g');
-    return formula.replace(sheetNameRegex, `'${newSheetName}'!`);
-  };
+  // References are found by tokenizing the formulas, so that string literals, longer sheet names
+  // (Sheet10 when renaming Sheet1) and other workbooks are left alone
+  const updateFormula = (formula: string): string => renameSheetInFormula(formula, oldSheetName, newSheetName);
 
   // Iterate through all worksheets
-  workbook.eachSheet((ws) => {
-    // Iterate through all cells in the worksheet
-    ws.eachRow((row) => {
-      row.eachCell((cell) => {
-        if (cell.formula) {
-          cell.value = {
-            formula: updateFormula(cell.formula),
-            result: cell.result,
-            ...(cell.value as any).ref ? { ref: (cell.value as any).ref } : {},
-            ...(cell.value as any).shareType ? { shareType: (cell.value as any).shareType } : {},
-          };
+  workbook.eachSheet((ws) => updateWorksheetFormulas(ws, updateFormula));
+
+  // Defined names, including print areas and titles
+  workbook.definedNames.model = workbook.definedNames.model.map(({ name, ranges }) => ({
+    name,
+    ranges: ranges.map(updateFormula),
+  }));
+}
+
+/**
+ * Rewrites every formula of a worksheet: cell formulas (shared formulas through their master cell),
+ * data validations, conditional formatting rules and internal hyperlinks ('#Sheet1!A1')
+ * @param worksheet The ExcelJS worksheet
+ * @param update Returns the new formula text
+ */
+function updateWorksheetFormulas(worksheet: ExcelJS.Worksheet, update: (formula: string) => string): void {
+  worksheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      if (cell.type === ExcelJS.ValueType.Formula) {
+        const value = cell.value as ExcelJS.CellFormulaValue | ExcelJS.CellSharedFormulaValue;
+        // Cells sharing the formula of a master cell hold its address only
+        if (!('sharedFormula' in value)) {
+          cell.value = { ...value, formula: update(value.formula) };
         }
-        // Check if cell has a shared formula
-        if ((cell.value as any)?.sharedFormula) {
-          // Preserve the sharedFormula reference and result
-          cell.value = {
-            sharedFormula: (cell.value as any).sharedFormula,
-            result: cell.result,
-          };
+      } else if (cell.type === ExcelJS.ValueType.Hyperlink) {
+        const value = cell.value as ExcelJS.CellHyperlinkValue;
+        if (value.hyperlink.startsWith('#')) {
+          cell.value = { ...value, hyperlink: `#${update(value.hyperlink.slice(1))}` };
         }
-      });
+      }
     });
   });
-}
-
-export default renameWorksheetAndUpdateFormulas;
-
-
-
-import * as ExcelJS from 'exceljs';
-import renameWorksheetAndUpdateFormulas from './updateWorksheetReferences';
-
-describe('renameWorksheetAndUpdateFormulas', () => {
-  let workbook: ExcelJS.Workbook;
-
-  beforeEach(() => {
-    workbook = new ExcelJS.Workbook();
-  });
 
-  test('should throw error if worksheet not found', async () => {
-    await expect(
-      renameWorksheetAndUpdateFormulas(workbook, 'NonExistent', 'NewName')
-    ).rejects.toThrow("Worksheet 'NonExistent' not found");
+  const { dataValidations, conditionalFormattings } = worksheet as ExcelJS.Worksheet & WorksheetInternals;
+  Object.values(dataValidations.model).forEach((validation) => {
+    if (validation?.formulae) {
+      validation.formulae = validation.formulae.map((formula) =>
+        typeof formula === 'string' ? update(formula) : formula
+      );
+    }
   });
 
-  test('should rename worksheet and update simple formula references', async () => {
-    // Setup workbook with two sheets
-    const sheet1 = workbook.addWorksheet('Sheet1');
-    const sheet2 = workbook.addWorksheet('Sheet2');
-    
-    // Add some formulas
-    sheet1.getCell('A1').value = { formula: 'Sheet2!B1', result: 42 };
-    sheet2.getCell('A1').value = { formula: 'Sheet1!A1+10', result: 52 };
-
-    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
-
-    // Verify worksheet renamed
-    expect(workbook.getWorksheet('DataSheet')).toBeDefined();
-    expect(workbook.getWorksheet('Sheet1')).toBeUndefined();
-
-    // Verify formula updates
-    expect(sheet1.getCell('A1').formula).toBe('Sheet2!B1');
-    expect(sheet2.getCell('A1').formula).toBe('DataSheet!A1+10');
-    expect(sheet2.getCell('A1').result).toBe(52); // Result preserved
-  });
-
-  test('should handle quoted sheet names in formulas', async () => {
-    const sheet1 = workbook.addWorksheet('Sheet One');
-    const sheet2 = workbook.addWorksheet('Sheet2');
-    
-    sheet2.getCell('A1').value = { formula: "'Sheet One'!A1", result: 100 };
-
-    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet One', 'Data Sheet');
-
-    expect(workbook.getWorksheet('Data Sheet')).toBeDefined();
-    expect(sheet2.getCell('A1').formula).toBe("'Data Sheet'!A1");
-    expect(sheet2.getCell('A1').result).toBe(100);
-  });
-
-  test('should update shared formulas', async () => {
-    const sheet1 = workbook.addWorksheet('Sheet1');
-    const sheet2 = workbook.addWorksheet('Sheet2');
-    
-    // Create shared formula
-    sheet2.getCell('A1').value = { formula: 'Sheet1!A1*2', result: 20, ref: 'A1:A2', shareType: 'shared' };
-    sheet2.getCell('A2').value = { sharedFormula: 'A1', result: 20 };
-    
-    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
-
-    expect(workbook.getWorksheet('DataSheet')).toBeDefined();
-    expect(sheet2.getCell('A1').formula).toBe('DataSheet!A1*2');
-    expect((sheet2.getCell('A2').value as any).sharedFormula).toBe('A1');
-    expect((sheet2.getCell('A2').value as any).result).toBe(20);
+  conditionalFormattings.forEach(({ rules }) => {
+    rules.forEach((rule) => {
+      if ('formulae' in rule && Array.isArray(rule.formulae)) {
+        rule.formulae = rule.formulae.map((formula) => (typeof formula === 'string' ? update(formula) : formula));
+      }
+    });
   });
+}
 
-  test('should not modify formulas that don’t reference the renamed sheet', async () => {
-    const sheet1 = workbook.addWorksheet('Sheet1');
-    const sheet2 = workbook.addWorksheet('Sheet2');
-    
-    const originalFormula = 'B1+C1';
-    sheet2.getCell('A1').value = { formula: originalFormula, result: 30 };
-
-    await renameWorksheetAndUpdateFormulas(workbook, 'Sheet1', 'DataSheet');
-
-    expect(sheet2.getCell('A1').formula).toBe(originalFormula);
-    expect(sheet2.getCell('A1').result).toBe(30);
-  });
-});
+export type { WorksheetInternals };
+export { updateWorksheetFormulas };
+export default renameWorksheetAndUpdateFormulas;
@@ -0,0 +1,148 @@
+import { groupBy, melt, pivot, unpivot } from './reshape';
+
+const trades = [
+  { desk: 'FX', trader: { name: 'Ann' }, month: 'Jan', amount: 10, lines: [{ fee: 1 }, { fee: 2 }] },
+  { desk: 'FX', trader: { name: 'Bob' }, month: 'Feb', amount: 5, lines: [{ fee: 3 }] },
+  { desk: 'IR', trader: { name: 'Ann' }, month: 'Jan', amount: 7, lines: [] },
+  { desk: 'FX', trader: { name: 'Ann' }, month: 'Jan', amount: 1, lines: [{ fee: 4 }] },
+  { desk: 'IR', trader: { name: 'Cid' }, month: 'Feb', amount: null, lines: [] },
+];
+
+describe('groupBy', () => {
+  test('should aggregate every group in first-seen order', () => {
+    expect(
+      groupBy(trades, 'desk', {
+        aggregate: {
+          amount: 'sum',
+          trades: { op: 'count' },
+          withAmount: { op: 'count', path: 'amount' },
+          avg: { op: 'avg', path: 'amount' },
+          min: { op: 'min', path: 'amount' },
+          max: { op: 'max', path: 'trader.name' },
+          first: { op: 'first', path: 'month' },
+          last: { op: 'last', path: 'month' },
+          fees: { op: 'sum', path: 'lines.[].fee' },
+          traders: { op: (values) => Array.from(new Set(values)).join(','), path: 'trader.name' },
+        },
+      })
+    ).toEqual([
+      {
+        desk: 'FX',
+        amount: 16,
+        trades: 3,
+        withAmount: 3,
+        avg: 16 / 3,
+        min: 1,
+        max: 'Bob',
+        first: 'Jan',
+        last: 'Jan',
+        fees: 10,
+        traders: 'Ann,Bob',
+      },
+      {
+        desk: 'IR',
+        amount: 7,
+        trades: 2,
+        withAmount: 1,
+        avg: 7,
+        min: 7,
+        max: 'Cid',
+        first: 'Jan',
+        last: 'Feb',
+        fees: 0,
+        traders: 'Ann,Cid',
+      },
+    ]);
+  });
+
+  test('should group by several nested keys and return a matrix', () => {
+    expect(groupBy(trades, ['desk', 'trader.name'], { aggregate: { amount: 'sum' }, as: 'matrix' })).toEqual([
+      ['desk', 'trader.name', 'amount'],
+      ['FX', 'Ann', 11],
+      ['FX', 'Bob', 5],
+      ['IR', 'Ann', 7],
+      ['IR', 'Cid', 0],
+    ]);
+  });
+
+  test('should keep numbers and numeric strings apart', () => {
+    const rows = [{ k: 1 }, { k: '1' }, { k: null }, {}, { k: 1 }];
+    expect(groupBy(rows, 'k', { aggregate: { n: 'count' } })).toEqual([
+      { k: 1, n: 2 },
+      { k: '1', n: 1 },
+      { k: undefined, n: 2 },
+    ]);
+  });
+
+  test('should reject unknown aggregations', () => {
+    expect(() => groupBy(trades, 'desk', { aggregate: { x: 'median' as any } })).toThrow(
+      "Unknown aggregation 'median' for 'x'"
+    );
+  });
+});
+
+describe('pivot', () => {
+  test('should spread the column values over the rows', () => {
+    expect(pivot(trades, { rows: 'trader.name', columns: 'month', values: 'amount' })).toEqual([
+      { 'trader.name': 'Ann', Jan: 18, Feb: undefined },
+      { 'trader.name': 'Bob', Jan: undefined, Feb: 5 },
+      { 'trader.name': 'Cid', Jan: undefined, Feb: 0 },
+    ]);
+  });
+
+  test('should aggregate, fill and return a matrix', () => {
+    expect(
+      pivot(trades, { rows: ['desk'], columns: 'month', values: 'amount', aggregate: 'count', fill: 0, as: 'matrix' })
+    ).toEqual([
+      ['desk', 'Jan', 'Feb'],
+      ['FX', 2, 1],
+      ['IR', 1, 0],
+    ]);
+  });
+
+  test('should read header-first matrices, with dotted headers as nested keys', () => {
+    const totals = groupBy(trades, ['desk', 'trader.name'], { aggregate: { amount: 'sum' }, as: 'matrix' });
+    expect(pivot(totals, { rows: 'trader.name', columns: 'desk', values: 'amount' })).toEqual([
+      { 'trader.name': 'Ann', FX: 11, IR: 7 },
+      { 'trader.name': 'Bob', FX: 5, IR: undefined },
+      { 'trader.name': 'Cid', FX: undefined, IR: 0 },
+    ]);
+    expect(unpivot([['id', 'Jan'], [1, 10]], { keep: 'id' })).toEqual([{ id: 1, variable: 'Jan', value: 10 }]);
+  });
+});
+
+describe('unpivot', () => {
+  const wide = [
+    { id: 1, meta: { region: 'EU' }, Jan: 10, Feb: 20 },
+    { id: 2, meta: { region: 'US' }, Jan: 30 },
+  ];
+
+  test('should turn every other key into rows', () => {
+    expect(unpivot(wide, { keep: ['id', 'meta'] })).toEqual([
+      { id: 1, meta: { region: 'EU' }, variable: 'Jan', value: 10 },
+      { id: 1, meta: { region: 'EU' }, variable: 'Feb', value: 20 },
+      { id: 2, meta: { region: 'US' }, variable: 'Jan', value: 30 },
+    ]);
+  });
+
+  test('should read the given columns and names, and return a matrix', () => {
+    expect(melt).toBe(unpivot);
+    expect(
+      melt(wide, { keep: 'meta.region', columns: ['Jan', 'Feb'], name: 'month', value: 'amount', as: 'matrix' })
+    ).toEqual([
+      ['meta.region', 'month', 'amount'],
+      ['EU', 'Jan', 10],
+      ['EU', 'Feb', 20],
+      ['US', 'Jan', 30],
+      ['US', 'Feb', undefined],
+    ]);
+  });
+
+  test('should round-trip with pivot', () => {
+    const long = unpivot(wide, { keep: 'id', columns: ['Jan', 'Feb'] });
+    expect(pivot(long, { rows: 'id', columns: 'variable', values: 'value', aggregate: 'first' })).toEqual([
+      { id: 1, Jan: 10, Feb: 20 },
+      { id: 2, Jan: 30, Feb: undefined },
+    ]);
+  });
+});
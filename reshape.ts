@@ -0,0 +1,240 @@
+import compilePath from './compilePath';
+import { matrixToObjectArray, objectArrayToMatrix } from './matrixUtils';
+import { hasWildcard } from './wildcard';
+import { cachedToPath } from './toPath';
+
+export type AggregateOp = 'sum' | 'count' | 'min' | 'max' | 'avg' | 'first' | 'last';
+
+// Custom aggregations get the values at the path and the rows of the group
+export type AggregateFn = (values: any[], rows: any[]) => any;
+
+export interface Aggregation {
+  op: AggregateOp | AggregateFn;
+  // get path of the aggregated value, default: the aggregation name. Values of wildcard paths are flattened,
+  // so 'lines.[].amount' sums the amounts of every line of every row in the group.
+  path?: string;
+}
+
+// Objects by default, or a header-first matrix like objectArrayToMatrix returns
+export interface OutputOptions {
+  as?: 'objects' | 'matrix';
+}
+
+export interface GroupByOptions extends OutputOptions {
+  // Aggregated values by output key, e.g. { total: { op: 'sum', path: 'amount' }, trades: { op: 'count' } }
+  aggregate?: Record<string, Aggregation | AggregateOp>;
+}
+
+export interface PivotOptions extends OutputOptions {
+  // get paths of the values identifying an output row, they become its first keys
+  rows: string | string[];
+  // get path of the value whose distinct values become the columns, in first-seen order
+  columns: string;
+  // get path of the aggregated value
+  values: string;
+  // Default 'sum'
+  aggregate?: AggregateOp | AggregateFn;
+  // Value of cells without any row, default undefined
+  fill?: any;
+}
+
+export interface UnpivotOptions extends OutputOptions {
+  // get paths of the values copied to every output row
+  keep: string | string[];
+  // get paths of the values turned into rows, default: every other top-level key
+  columns?: string[];
+  // Keys of the output rows holding the column name and its value, default 'variable' and 'value'
+  name?: string;
+  value?: string;
+}
+
+// Objects, or a header-first matrix whose dotted headers ('trader.name') are read as nested keys
+type Rows = Array<Record<string, any>> | any[][];
+type Result = Array<Record<string, any>> | [string[], ...any[][]];
+
+export function groupBy(
+  rows: Rows,
+  keys: string | string[],
+  options: GroupByOptions & { as: 'matrix' }
+): [string[], ...any[][]];
+export function groupBy(
+  rows: Rows,
+  keys: string | string[],
+  options?: GroupByOptions
+): Array<Record<string, any>>;
+export function groupBy(
+  rows: Rows,
+  keys: string | string[],
+  options: GroupByOptions = {}
+): Result {
+  const objects = toObjects(rows);
+  const keyPaths = toList(keys);
+  const aggregations = Object.entries(options.aggregate ?? {}).map(
+    ([name, aggregation]) => [name, toAggregator(name, aggregation)] as const
+  );
+  const result = groupRows(objects, keyPaths).map(({ values, rows: groupRows }) => {
+    const output: Record<string, any> = {};
+    keyPaths.forEach((path, i) => {
+      output[path] = values[i];
+    });
+    aggregations.forEach(([name, aggregator]) => {
+      output[name] = aggregator(groupRows);
+    });
+    return output;
+  });
+  return format(result, { ...options, headers: [...keyPaths, ...aggregations.map(([name]) => name)] });
+}
+
+export function pivot(
+  rows: Rows,
+  options: PivotOptions & { as: 'matrix' }
+): [string[], ...any[][]];
+export function pivot(rows: Rows, options: PivotOptions): Array<Record<string, any>>;
+export function pivot(rows: Rows, options: PivotOptions): Result {
+  const objects = toObjects(rows);
+  const rowPaths = toList(options.rows);
+  const columnOf = compilePath(options.columns);
+  const aggregator = toAggregator(options.values, { op: options.aggregate ?? 'sum', path: options.values });
+
+  // Columns in first-seen order, keyed like groups so that 1 and '1' stay apart
+  const columns = new Map<string, string>();
+  objects.forEach((row) => {
+    const column = columnOf(row);
+    columns.set(groupKey([column]), String(column));
+  });
+
+  const result = groupRows(objects, rowPaths).map(({ values, rows: groupRows }) => {
+    const output: Record<string, any> = {};
+    rowPaths.forEach((path, i) => {
+      output[path] = values[i];
+    });
+    const byColumn = new Map<string, any[]>();
+    groupRows.forEach((row) => {
+      const key = groupKey([columnOf(row)]);
+      const cell = byColumn.get(key);
+      if (cell) {
+        cell.push(row);
+      } else {
+        byColumn.set(key, [row]);
+      }
+    });
+    columns.forEach((name, key) => {
+      const cell = byColumn.get(key);
+      output[name] = cell ? aggregator(cell) : options.fill;
+    });
+    return output;
+  });
+  return format(result, { ...options, headers: [...rowPaths, ...columns.values()] });
+}
+
+export function unpivot(
+  rows: Rows,
+  options: UnpivotOptions & { as: 'matrix' }
+): [string[], ...any[][]];
+export function unpivot(rows: Rows, options: UnpivotOptions): Array<Record<string, any>>;
+export function unpivot(rows: Rows, options: UnpivotOptions): Result {
+  const objects = toObjects(rows);
+  const keepPaths = toList(options.keep);
+  const keep = keepPaths.map((path) => compilePath(path));
+  const { name = 'variable', value = 'value' } = options;
+  const keepRoots = new Set(keepPaths.map((path) => cachedToPath(path)[0]));
+
+  const columnPaths = (options.columns ?? []).map((column) => [column, compilePath(column)] as const);
+
+  const result = objects.flatMap((row) => {
+    const kept: Record<string, any> = {};
+    keepPaths.forEach((path, i) => {
+      kept[path] = keep[i](row);
+    });
+    // Without columns every other top-level key is a column, read as a plain key
+    const columns = options.columns
+      ? columnPaths.map(([column, read]) => [column, read(row)])
+      : Object.keys(row ?? {})
+          .filter((key) => !keepRoots.has(key))
+          .map((key) => [key, row[key]]);
+    return columns.map(([column, columnValue]) => ({ ...kept, [name]: column, [value]: columnValue }));
+  });
+  return format(result, { ...options, headers: [...keepPaths, name, value] });
+}
+
+export const melt = unpivot;
+
+// Header-first matrices are converted once, so that the paths read them like objects
+function toObjects(rows: Rows): Array<Record<string, any>> {
+  if (!Array.isArray(rows)) return [];
+  return isMatrix(rows) ? matrixToObjectArray(rows, { nested: true }) : rows;
+}
+
+function isMatrix(rows: Rows): rows is any[][] {
+  return rows.length > 0 && Array.isArray(rows[0]);
+}
+
+function toList(paths: string | string[]): string[] {
+  return Array.isArray(paths) ? paths : [paths];
+}
+
+// Groups in first-seen order, with the key values of each group
+function groupRows(rows: Array<Record<string, any>>, keyPaths: string[]): Array<{ values: any[]; rows: any[] }> {
+  const keys = keyPaths.map((path) => compilePath(path));
+  const groups = new Map<string, { values: any[]; rows: any[] }>();
+  rows.forEach((row) => {
+    const values = keys.map((key) => key(row));
+    const id = groupKey(values);
+    const group = groups.get(id);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(id, { values, rows: [row] });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+// Identity of a list of key values, telling apart numbers and numeric strings (get reads null as undefined)
+function groupKey(values: any[]): string {
+  return JSON.stringify(values, (_key, value) => (value === undefined ? { undefined: true } : value));
+}
+
+function toAggregator(name: string, aggregation: Aggregation | AggregateOp): (rows: any[]) => any {
+  const { op, path = name } = typeof aggregation === 'string' ? { op: aggregation } : aggregation;
+  const read = compilePath(path);
+  const flatten = hasWildcard(cachedToPath(path));
+  const valuesOf = (rows: any[]): any[] =>
+    flatten ? rows.flatMap((row) => read(row).flat(Infinity)) : rows.map((row) => read(row));
+
+  if (typeof op === 'function') {
+    return (rows) => op(valuesOf(rows), rows);
+  }
+  const present = (rows: any[]) => valuesOf(rows).filter((value) => value !== undefined && value !== null);
+  const numbers = (rows: any[]) => present(rows).filter((value) => typeof value === 'number' && !Number.isNaN(value));
+  switch (op) {
+    case 'sum':
+      return (rows) => numbers(rows).reduce((total, value) => total + value, 0);
+    case 'count':
+      // Rows in the group without a path, non-empty values otherwise
+      return (rows) => (typeof aggregation !== 'string' && aggregation.path ? present(rows).length : rows.length);
+    case 'avg':
+      return (rows) => {
+        const values = numbers(rows);
+        return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+      };
+    case 'min':
+    case 'max':
+      // Numbers, strings and dates, compared with < and >
+      return (rows) =>
+        present(rows).reduce(
+          (best, value) => (best === undefined || (op === 'min' ? value < best : value > best) ? value : best),
+          undefined
+        );
+    case 'first':
+      return (rows) => valuesOf(rows)[0];
+    case 'last':
+      return (rows) => valuesOf(rows).slice(-1)[0];
+    default:
+      throw new Error(`Unknown aggregation '${op}' for '${name}'`);
+  }
+}
+
+function format(result: Array<Record<string, any>>, options: OutputOptions & { headers?: string[] }): Result {
+  return options.as === 'matrix' ? objectArrayToMatrix(result, { headers: options.headers }) : result;
+}
@@ -0,0 +1,182 @@
+import { DateTime } from 'luxon';
+import { isEmptyValue } from './trimMatrix';
+
+export type CellType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'enum';
+
+export interface ColumnSchema {
+  type: CellType;
+  // Header text of the column, defaults to the schema key
+  header?: string;
+  // Empty cells (undefined, null, blank strings) are reported as errors
+  required?: boolean;
+  // Used for empty cells instead of undefined
+  default?: unknown;
+  // Allowed values of an enum column, matched case-insensitively and returned as declared
+  values?: readonly string[];
+  // Trim strings before converting them (default true)
+  trim?: boolean;
+  // Called with the converted value and the whole row, returns an error message (or false) for invalid values
+  validate?: (value: any, row: Record<string, any>) => string | boolean | void;
+}
+
+export type RowSchema = Record<string, ColumnSchema>;
+
+type CellValue<C extends ColumnSchema> = C['type'] extends 'string'
+  ? string
+  : C['type'] extends 'number' | 'integer'
+    ? number
+    : C['type'] extends 'boolean'
+      ? boolean
+      : C['type'] extends 'date'
+        ? Date
+        : C extends { values: readonly (infer V)[] }
+          ? V
+          : string;
+
+// Required columns and columns with a default always have a value
+type IsSet<C extends ColumnSchema> = C extends { required: true }
+  ? true
+  : C extends { default: infer D }
+    ? [D] extends [undefined]
+      ? false
+      : true
+    : false;
+
+export type InferRow<S extends RowSchema> = {
+  [K in keyof S]: IsSet<S[K]> extends true ? CellValue<S[K]> : CellValue<S[K]> | undefined;
+};
+
+export interface CellError {
+  // Spreadsheet row number and column letter, absent when the whole column is missing
+  row?: number;
+  column?: string;
+  header: string;
+  value?: unknown;
+  message: string;
+}
+
+export interface SchemaResult<R> {
+  rows: R[];
+  errors: CellError[];
+}
+
+// Where the matrix starts in the sheet, 0-based (e.g. the offset returned by trimMatrix), default A1
+export interface MatrixOffset {
+  top?: number;
+  left?: number;
+}
+
+type Converted = { value: unknown } | { error: string };
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Day 0 of Excel's 1900 date system, exact from 1900-03-01 on (Excel counts a non-existent 1900-02-29)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Converts one cell according to its column, without the required/default/validate handling
+export function convertCell(value: unknown, column: ColumnSchema): Converted {
+  const text = typeof value === 'string' && column.trim !== false ? value.trim() : value;
+  switch (column.type) {
+    case 'string':
+      return { value: text instanceof Date ? text.toISOString() : String(text) };
+    case 'number':
+    case 'integer': {
+      const number = toNumber(text);
+      if (number === undefined) return { error: 'not a number' };
+      if (column.type === 'integer' && !Number.isInteger(number)) return { error: 'not an integer' };
+      return { value: number };
+    }
+    case 'boolean': {
+      if (typeof text === 'boolean') return { value: text };
+      const lower = String(text).toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { error: 'not a boolean' };
+    }
+    case 'date': {
+      const date = toDate(text);
+      return date ? { value: date } : { error: 'not a date' };
+    }
+    case 'enum': {
+      const values = column.values ?? [];
+      const match = values.find((item) => item.toLowerCase() === String(text).toLowerCase());
+      return match !== undefined ? { value: match } : { error: `not one of ${values.join(', ')}` };
+    }
+    default:
+      return { error: `unknown type '${column.type}'` };
+  }
+}
+
+// Parses one row: converts every cell, applies required and default, then runs the validators on the full row
+export function parseRow(
+  schema: RowSchema,
+  valueOf: (key: string) => unknown,
+  locate: (key: string) => Omit<CellError, 'header' | 'message' | 'value'>,
+  errors: CellError[]
+): Record<string, any> {
+  const row: Record<string, any> = {};
+  const invalid = new Set<string>();
+  const report = (key: string, value: unknown, message: string) => {
+    invalid.add(key);
+    errors.push({ ...locate(key), header: schema[key].header ?? key, value, message });
+  };
+
+  Object.entries(schema).forEach(([key, column]) => {
+    const value = valueOf(key);
+    if (isEmptyValue(value)) {
+      if (column.required) report(key, value, 'required');
+      row[key] = column.default;
+      return;
+    }
+    const converted = convertCell(value, column);
+    if ('error' in converted) {
+      report(key, value, converted.error);
+      row[key] = undefined;
+    } else {
+      row[key] = converted.value;
+    }
+  });
+
+  Object.entries(schema).forEach(([key, column]) => {
+    if (!column.validate || invalid.has(key) || row[key] === undefined) return;
+    const result = column.validate(row[key], row);
+    if (result === false || typeof result === 'string') {
+      report(key, valueOf(key), result === false ? 'invalid value' : result);
+    }
+  });
+  return row;
+}
+
+// 'Row 17, column C "Rate": not a number'
+export function formatCellError({ row, column, header, message }: CellError): string {
+  const location = row !== undefined ? `Row ${row}, column ${column}` : 'Column';
+  return `${location} "${header}": ${message}`;
+}
+
+// Plain decimal notation only: '12', '-0.5', '.5', '1e3' (not '0x1F', '0b1', 'Infinity')
+const DECIMAL = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value === '') return undefined;
+  // Thousands separators: '1,234.5'
+  const text = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value) ? value.replace(/,/g, '') : value;
+  if (!DECIMAL.test(text)) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Date objects, Excel serial numbers (also as text, e.g. from CSV) and ISO 8601 strings
+// (without an offset they are read as UTC)
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? new Date(EXCEL_EPOCH + Math.round(value * DAY_MS)) : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  if (DECIMAL.test(value)) return toDate(Number(value));
+  const date = DateTime.fromISO(value, { zone: 'utc' });
+  return date.isValid ? date.toJSDate() : undefined;
+}
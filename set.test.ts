@@ -0,0 +1,98 @@
+import set, { update } from './set';
+
+const createObject = () => ({
+  a: [
+    { b: [{ c: 1 }, { c: 2 }] },
+    { b: [{ c: 3 }] },
+  ],
+  x: { y: 1 },
+});
+
+describe('set', () => {
+  test('should set value at standard path', () => {
+    const object = createObject();
+    expect(set(object, 'x.y', 5)).toBe(object);
+    expect(object.x.y).toBe(5);
+  });
+
+  test('should write into every element matched by a wildcard', () => {
+    const object = createObject();
+    set(object, 'a.[].b.[].c', 0);
+    expect(object.a).toEqual([
+      { b: [{ c: 0 }, { c: 0 }] },
+      { b: [{ c: 0 }] },
+    ]);
+  });
+
+  test('should pass current value and concrete path to a function', () => {
+    const object = createObject();
+    const paths: any[] = [];
+    set(object, 'a.[].b.[].c', (value: number, path: any[]) => {
+      paths.push(path);
+      return value * 10;
+    });
+    expect(object.a[0].b).toEqual([{ c: 10 }, { c: 20 }]);
+    expect(object.a[1].b).toEqual([{ c: 30 }]);
+    expect(paths).toEqual([
+      ['a', 0, 'b', 0, 'c'],
+      ['a', 0, 'b', 1, 'c'],
+      ['a', 1, 'b', 0, 'c'],
+    ]);
+  });
+
+  test('should create missing intermediate objects and arrays', () => {
+    expect(set({}, 'a.b.c', 1)).toEqual({ a: { b: { c: 1 } } });
+    expect(set({}, 'a[0].b', 1)).toEqual({ a: [{ b: 1 }] });
+    expect(set({ a: [{}, { b: {} }] }, 'a.[].b.c', 1)).toEqual({ a: [{ b: { c: 1 } }, { b: { c: 1 } }] });
+  });
+
+  test('should not create arrays for wildcard segments', () => {
+    expect(set({}, 'a.[].b', 1)).toEqual({});
+    expect(set({ a: { b: 2 } }, 'a.[].b', 1)).toEqual({ a: { b: 2 } });
+  });
+
+  test('should return a structurally shared copy in immutable mode', () => {
+    const object = createObject();
+    const result = set(object, 'a.[].b[0].c', 0, { immutable: true });
+
+    expect(object.a[0].b[0].c).toBe(1);
+    expect(result.a[0].b).toEqual([{ c: 0 }, { c: 2 }]);
+    expect(result.a[1].b).toEqual([{ c: 0 }]);
+    expect(result).not.toBe(object);
+    expect(result.x).toBe(object.x);
+    expect(result.a[0].b[1]).toBe(object.a[0].b[1]);
+  });
+
+  test('should keep the original reference when nothing changes in immutable mode', () => {
+    const object = createObject();
+    expect(set(object, 'x.y', 1, { immutable: true })).toBe(object);
+    expect(set(object, 'z.[].c', 1, { immutable: true })).toBe(object);
+  });
+
+  test('should handle null input and empty path', () => {
+    expect(set(null as any, 'a.b', 1)).toBeNull();
+    const object = createObject();
+    expect(set(object, [], 1)).toBe(object);
+  });
+
+  test('should not write through the prototype', () => {
+    ['__proto__.polluted', 'constructor.prototype.polluted', 'a.[].__proto__.polluted'].forEach((path) => {
+      const object = createObject();
+      expect(set(object, path, 1)).toEqual(createObject());
+      expect(set(object, path, 1, { immutable: true })).toBe(object);
+    });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe('update', () => {
+  test('should apply updater to every matched value', () => {
+    const object = createObject();
+    const result = update(object, 'a.[].b.[].c', (value) => value + 1, { immutable: true });
+    expect(result.a).toEqual([
+      { b: [{ c: 2 }, { c: 3 }] },
+      { b: [{ c: 4 }] },
+    ]);
+    expect(object.a[0].b[0].c).toBe(1);
+  });
+});
@@ -0,0 +1,128 @@
+import toPath from './toPath.js';
+import { isWildcard, matchWildcard } from './wildcard.js';
+
+type PathKey = string | number;
+
+// Keys never written through, like lodash set does
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+type Updater = (value: any, path: PathKey[]) => any;
+
+interface SetOptions {
+  // Leave the input untouched and return a copy that shares every branch not written to
+  immutable?: boolean;
+}
+
+/**
+ * Writes a value through a path parsed by superToPath. Every wildcard segment ('[]', '[1:3]', '[?a==1]')
+ * fans out over the matched elements of the array found at that position, so 'a.[].b.[].c' writes into each c.
+ * Missing intermediate objects (or arrays, for numeric keys) are created for non-wildcard segments.
+ * @param object The object to write into.
+ * @param path The path string (e.g., 'a.[].b.[].c') or array of keys.
+ * @param valueOrFn The value to write, or a function receiving the current value and its concrete path.
+ * @param options Set immutable to get a structurally shared copy instead of mutating the input.
+ * @returns The updated object (the input itself unless immutable is set).
+ */
+function set<T extends object>(
+  object: T,
+  path: string | string[],
+  valueOrFn: any,
+  options: SetOptions = {}
+): T {
+  if (object == null) {
+    return object;
+  }
+
+  const keys = toPath(path);
+  if (keys.length === 0) {
+    return object;
+  }
+
+  const updater: Updater = typeof valueOrFn === 'function' ? valueOrFn : () => valueOrFn;
+  return assignPath(object, keys, 0, updater, !!options.immutable, []);
+}
+
+/**
+ * Same as set, but always applies an updater function to the current value(s).
+ */
+function update<T extends object>(
+  object: T,
+  path: string | string[],
+  updater: Updater,
+  options: SetOptions = {}
+): T {
+  return set(object, path, updater, options);
+}
+
+function assignPath(
+  current: any,
+  keys: string[],
+  index: number,
+  updater: Updater,
+  immutable: boolean,
+  trail: PathKey[]
+): any {
+  const key = keys[index];
+  const isLast = index === keys.length - 1;
+
+  // Wildcard key: write into every matched element, never create arrays
+  if (isWildcard(key)) {
+    if (!Array.isArray(current)) {
+      return current;
+    }
+    let result = current;
+    matchWildcard(current, key).forEach((i) => {
+      const item = current[i];
+      const itemTrail = [...trail, i];
+      const next = isLast
+        ? updater(item, itemTrail)
+        : assignPath(item, keys, index + 1, updater, immutable, itemTrail);
+      if (next !== item) {
+        if (immutable && result === current) {
+          result = current.slice();
+        }
+        result[i] = next;
+      }
+    });
+    return result;
+  }
+
+  // Like lodash set, never write through the prototype ('__proto__.polluted')
+  if (UNSAFE_KEYS.includes(key)) {
+    return current;
+  }
+
+  // Non-wildcard key: create the container if it is missing
+  const isContainer = current != null && typeof current === 'object';
+  const container = isContainer ? current : isIndex(key) ? [] : {};
+  const keyTrail = [...trail, Array.isArray(container) && isIndex(key) ? Number(key) : key];
+  const prev = container[key];
+  const next = isLast
+    ? updater(prev, keyTrail)
+    : assignPath(prev, keys, index + 1, updater, immutable, keyTrail);
+
+  // Nothing changed, so keep the original reference
+  if (isContainer && next === prev && key in current) {
+    return current;
+  }
+  // Nothing was written below a missing branch (e.g. a wildcard without an array), so don't create it
+  if (!isLast && prev === undefined && next === undefined) {
+    return current;
+  }
+
+  const result = immutable && isContainer ? shallowCopy(current) : container;
+  result[key] = next;
+  return result;
+}
+
+function shallowCopy(value: any): any {
+  return Array.isArray(value) ? value.slice() : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+function isIndex(key: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(key);
+}
+
+export { UNSAFE_KEYS, update };
+export type { SetOptions, Updater };
+export default set;
@@ -0,0 +1,64 @@
+import stringifyPath from './stringifyPath';
+import superToPath from './toPath';
+
+// Small seeded generator (mulberry32), so failures are reproducible without extra dependencies
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const ALPHABET = ['a', 'b', 'Z', '_', '$', '0', '7', '-', '.', '[', ']', '"', "'", '\\', ' ', '*', '?', ':', '=', '\n'];
+const WILDCARDS = ['[]', '[1:3]', '[-2:]', '[::2]', '[?type=="fx"]', '[?a.b>1 && c!="]"]', '**'];
+
+const randomKeys = (next: () => number): string[] => {
+  const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)];
+  return Array.from({ length: 1 + Math.floor(next() * 6) }, () => {
+    if (next() < 0.2) {
+      return pick(WILDCARDS);
+    }
+    const length = 1 + Math.floor(next() * 6);
+    return Array.from({ length }, () => pick(ALPHABET)).join('');
+  });
+};
+
+describe('stringifyPath', () => {
+  test('should write identifiers, indexes and quoted keys', () => {
+    expect(stringifyPath(['a', 'b', 0, 'c'])).toBe('a.b[0].c');
+    expect(stringifyPath([0, 'a'])).toBe('[0].a');
+    expect(stringifyPath(['a', 'b.c', 'x"y', 'back\\slash'])).toBe('a["b.c"]["x\\"y"]["back\\\\slash"]');
+    expect(stringifyPath(['a', '.b'])).toBe('a[".b"]');
+    expect(stringifyPath([])).toBe('');
+  });
+
+  test('should keep wildcards as whole segments', () => {
+    expect(stringifyPath(['a', '[]', 'b', '[1:3]', '[?x==1]'])).toBe('a.[].b.[1:3].[?x==1]');
+    expect(stringifyPath(['[]', 0, 'b.c'])).toBe('[].[0]["b.c"]');
+    expect(stringifyPath(['**', 'formula'])).toBe('**.formula');
+  });
+
+  test('should round-trip the keys of documented paths', () => {
+    ['a.b[0]["c.d"]', 'a..b', 'a.', 'a.[].b.[?type=="fx" && rate>1].c', '**.formula', "a['x\\'y']"].forEach((path) => {
+      const keys = superToPath(path);
+      expect(superToPath(stringifyPath(keys))).toEqual(keys);
+    });
+  });
+
+  test('should round-trip random keys', () => {
+    const next = random(20240611);
+    for (let run = 0; run < 2000; run++) {
+      const keys = randomKeys(next);
+      const path = stringifyPath(keys);
+      expect({ path, keys: superToPath(path, { strict: true }) }).toEqual({ path, keys });
+    }
+  });
+
+  test('should parse its own output back to the same string', () => {
+    const next = random(42);
+    for (let run = 0; run < 500; run++) {
+      const path = stringifyPath(randomKeys(next));
+      expect(stringifyPath(superToPath(path))).toBe(path);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { RECURSIVE_DESCENT, isWildcard } from './wildcard';
+
+/**
+ * The inverse of superToPath: writes keys back as a path string, so that
+ * superToPath(stringifyPath(keys)) returns the same keys (numbers come back as strings).
+ * Identifiers are joined with dots, indexes are written as '[0]', wildcard segments ('[]', '[1:3]', '[?a==1]')
+ * and '**' are kept as is, and any other key is quoted with '"' and '\' escaped ('a["b.c"]["x\"y"]').
+ * An empty key is written as '[""]' but does not round-trip, superToPath merges empty keys into the next one.
+ * @param keys Keys as produced by superToPath, or concrete paths from getEntries.
+ * @returns The path string.
+ */
+function stringifyPath(keys: Array<string | number>): string {
+  let result = '';
+  let afterWildcard = false;
+
+  keys.forEach((key, i) => {
+    const value = String(key);
+    // A wildcard has to be a whole segment, so it is separated by dots on both sides
+    const separator = i > 0 ? '.' : '';
+    if (isWildcard(value)) {
+      result += separator + value;
+      afterWildcard = true;
+      return;
+    }
+    if (value === RECURSIVE_DESCENT || /^[A-Za-z_$][\w$]*$/.test(value)) {
+      result += separator + value;
+    } else {
+      const bracket = /^-?\d+$/.test(value) ? `[${value}]` : `["${value.replace(/[\\"]/g, '\\$&')}"]`;
+      result += (afterWildcard ? '.' : '') + bracket;
+    }
+    afterWildcard = false;
+  });
+  return result;
+}
+
+export default stringifyPath;
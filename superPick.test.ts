@@ -0,0 +1,101 @@
+import superPick from './superPick';
+
+const payload = {
+  id: 7,
+  quotes: [
+    { type: 'fx', ccy: 'EUR', rate: 1.1, source: { name: 'ecb', key: 's1' } },
+    { type: 'ir', ccy: 'USD', rate: 0.05, source: { name: 'fed', key: 's2' } },
+    { type: 'fx', ccy: 'GBP', rate: 1.3 },
+  ],
+  meta: { owner: 'ops', tags: ['daily'] },
+};
+
+describe('superPick', () => {
+  test('should keep the full nesting of standard paths', () => {
+    expect(superPick(payload, 'meta.owner', { keepUnmatched: false })).toEqual({ meta: { owner: 'ops' } });
+  });
+
+  test('should merge several wildcard paths into one tree', () => {
+    expect(superPick(payload, ['quotes.[].ccy', 'quotes.[].rate', 'meta.owner'], { keepUnmatched: false })).toEqual({
+      quotes: [
+        { ccy: 'EUR', rate: 1.1 },
+        { ccy: 'USD', rate: 0.05 },
+        { ccy: 'GBP', rate: 1.3 },
+      ],
+      meta: { owner: 'ops' },
+    });
+  });
+
+  test('should merge elements by original position when filters differ', () => {
+    const paths = ['quotes.[?type=="fx"].ccy', 'quotes.[].source.name'];
+    expect(superPick(payload, paths, { keepUnmatched: false })).toEqual({
+      quotes: [
+        { ccy: 'EUR', source: { name: 'ecb' } },
+        { source: { name: 'fed' } },
+        { ccy: 'GBP' },
+      ],
+    });
+  });
+
+  test('should rename the last key with an alias', () => {
+    expect(superPick(payload, ['quotes.[].rate as fxRate', 'id as tradeId'], { keepUnmatched: false })).toEqual({
+      tradeId: 7,
+      quotes: [{ fxRate: 1.1 }, { fxRate: 0.05 }, { fxRate: 1.3 }],
+    });
+  });
+
+  test('should set unmatched top-level keys to undefined by default', () => {
+    const result = superPick(payload, 'meta.owner');
+    expect(result).toEqual({ id: undefined, quotes: undefined, meta: { owner: 'ops' } });
+    expect(Object.keys(result).sort()).toEqual(['id', 'meta', 'quotes']);
+  });
+
+  test('should drop unmatched top-level keys when asked', () => {
+    expect(Object.keys(superPick(payload, 'meta.owner', { keepUnmatched: false }))).toEqual(['meta']);
+  });
+
+  describe('projection objects', () => {
+    test('should include paths marked with 1', () => {
+      expect(superPick(payload, { id: 1, meta: { tags: 1 } }, { keepUnmatched: false })).toEqual({
+        id: 7,
+        meta: { tags: ['daily'] },
+      });
+    });
+
+    test('should keep everything but paths marked with 0', () => {
+      const result = superPick(payload, { quotes: 0, meta: { tags: 0 } });
+      expect(result).toEqual({ id: 7, meta: { owner: 'ops' } });
+      expect(Object.keys(result)).toEqual(['id', 'meta']);
+    });
+
+    test('should leave out excluded top-level keys next to inclusions', () => {
+      expect(Object.keys(superPick(payload, { 'meta.owner': 1, id: 0 }))).toEqual(['meta', 'quotes']);
+    });
+
+    test('should return a copy for an empty projection', () => {
+      const result = superPick(payload, {});
+      expect(result).toEqual(payload);
+      expect(result).not.toBe(payload);
+    });
+
+    test('should combine inclusions and exclusions', () => {
+      expect(superPick(payload, { 'quotes.[]': { ccy: 1, source: { key: 0 } } }, { keepUnmatched: false })).toEqual({
+        quotes: [
+          { ccy: 'EUR', source: { name: 'ecb' } },
+          { ccy: 'USD', source: { name: 'fed' } },
+          { ccy: 'GBP' },
+        ],
+      });
+    });
+  });
+
+  test('should not mutate the input', () => {
+    superPick(payload, { 'quotes.[]': { source: { key: 0 } } });
+    expect(payload.quotes[0].source).toEqual({ name: 'ecb', key: 's1' });
+  });
+
+  test('should return empty object for null/undefined input', () => {
+    expect(superPick(null, 'a')).toEqual({});
+    expect(superPick(undefined, { a: 1 })).toEqual({});
+  });
+});
@@ -0,0 +1,126 @@
+import omit from './omit.js';
+import {
+  compactMatches,
+  mergeMatches,
+  parsePaths,
+  processWildcardPath,
+  ResultObject,
+  track,
+} from './pick.js';
+
+/**
+ * Mongo-style projection: 1/true includes a path, 0/false excludes it, nested objects address sub-paths.
+ * Keys may be any path fragment, e.g. { 'quotes.[]': { rate: 1 } }.
+ * A nested object with only exclusions keeps its parent minus the excluded paths.
+ */
+interface Projection {
+  [path: string]: 0 | 1 | boolean | Projection;
+}
+
+interface SuperPickOptions {
+  // Top-level keys of the source that no path matched are kept with an undefined value (default), or dropped.
+  // Excluded keys are always left out.
+  keepUnmatched?: boolean;
+}
+
+// 'a.[].rate as fxRate'
+const ALIAS_REGEX = /^(.*\S)\s+as\s+([^\s.[\]]+)$/;
+
+/**
+ * Projects an object through several paths into one output tree.
+ * Unlike pick, every path keeps its full nesting, and paths sharing a prefix are merged
+ * (array elements are merged by their original position, then unmatched elements are dropped).
+ * @param object The source object.
+ * @param spec A path, an array of paths (each may end with ' as alias' to rename its last key),
+ * or a projection object such as { a: { b: 1, c: 0 } }.
+ * @param options See SuperPickOptions.
+ * @returns The projected object.
+ */
+function superPick<T extends object>(
+  object: T | null | undefined,
+  spec: string | string[] | Projection,
+  options: SuperPickOptions = {}
+): ResultObject {
+  if (object == null) {
+    return {};
+  }
+
+  const { include, exclude, includeAll } = toPathLists(spec);
+
+  let result: any;
+  if (includeAll) {
+    // A copy even without exclusions, the result is never the input
+    result = omit(object, exclude);
+  } else {
+    const created = new WeakSet<object>();
+    result = track(Array.isArray(object) ? [] : {}, created);
+    include.forEach((path) => {
+      const [, source, alias] = ALIAS_REGEX.exec(path) || [path, path, undefined];
+      const [keys] = parsePaths(source);
+      if (keys.length > 0) {
+        result = mergeMatches(result, processWildcardPath(object, keys, 0, created, alias), created);
+      }
+    });
+    result = compactMatches(result, created);
+    if (exclude.length > 0) {
+      result = omit(result, exclude);
+    }
+  }
+
+  if (options.keepUnmatched !== false && !Array.isArray(object)) {
+    const excluded = new Set(parsePaths(exclude).flatMap((keys) => (keys.length === 1 ? keys : [])));
+    Object.keys(object).forEach((key) => {
+      if (!(key in result) && !excluded.has(key)) {
+        result[key] = undefined;
+      }
+    });
+  }
+
+  return result;
+}
+
+function toPathLists(spec: string | string[] | Projection): {
+  include: string[];
+  exclude: string[];
+  includeAll: boolean;
+} {
+  if (typeof spec === 'string' || Array.isArray(spec)) {
+    return { include: Array.isArray(spec) ? spec : [spec], exclude: [], includeAll: false };
+  }
+  const { include, exclude, hasInclusion } = flattenProjection(spec, '');
+  // Only exclusions: keep everything else, like Mongo does
+  return { include, exclude, includeAll: !hasInclusion };
+}
+
+function flattenProjection(
+  projection: Projection,
+  prefix: string
+): { include: string[]; exclude: string[]; hasInclusion: boolean } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  let hasInclusion = false;
+
+  Object.entries(projection).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object') {
+      const nested = flattenProjection(value, path);
+      if (nested.hasInclusion) {
+        hasInclusion = true;
+        include.push(...nested.include);
+      } else {
+        include.push(path);
+      }
+      exclude.push(...nested.exclude);
+    } else if (value) {
+      hasInclusion = true;
+      include.push(path);
+    } else {
+      exclude.push(path);
+    }
+  });
+
+  return { include, exclude, hasInclusion };
+}
+
+export type { Projection, SuperPickOptions };
+export default superPick;
@@ -1,43 +1,204 @@
 import { toPath } from 'lodash';
 import combineEmpty from './combineEmpty';
+import LRUCache from './lruCache';
+import { isWildcardSpec, matchWildcard } from './wildcard';
+
+interface ToPathOptions {
+  // Throw a PathSyntaxError on paths outside the grammar instead of parsing them leniently like lodash
+  strict?: boolean;
+}
+
+/**
+ * Error thrown by superToPath in strict mode, position is the index of the offending character.
+ */
+class PathSyntaxError extends Error {
+  constructor(readonly path: string, readonly position: number, reason: string) {
+    super(`Invalid path at position ${position}: ${reason} in '${path}'`);
+    this.name = 'PathSyntaxError';
+  }
+}
+
+// Parsed path strings, shared by get, pick and the other path helpers
+const PATH_CACHE_SIZE = 1000;
+const pathCache = new LRUCache<string, string[]>(PATH_CACHE_SIZE);
+
+/*
+ * Path grammar:
+ *   path      := '' | segment ('.' segment)*
+ *   segment   := wildcard | key? bracket*
+ *   key       := one or more characters other than '.', '[' and ']' ('**' is recursive descent)
+ *   bracket   := '[' index ']' | '[' quoted ']'
+ *   index     := '-'? digit+
+ *   quoted    := '"' (any character but '"' and '\' | '\' any character)* '"', or the same with "'"
+ *   wildcard  := '[' ( '' | slice | '?' predicate ) ']'
+ *   slice     := int? ':' int? (':' int?)?, see wildcard.ts for the predicate grammar
+ * A wildcard is a whole segment: it starts the path or follows a '.', and is followed by a '.' or ends the path.
+ * Empty segments are merged into the next key by combineEmpty ('a..b' → ['a', '.b'], 'a.' → ['a', '.']),
+ * so an empty key cannot be expressed. stringifyPath writes keys back in this grammar.
+ */
 
 /**
- * Splits a path string on '.[].', processes each segment with toPath and combineEmpty,
- * and concatenates results with '[]' separators.
- * @param value The input path string (e.g., 'a.[].b.[].c').
- * @returns Array of strings with segments processed by toPath and combineEmpty, joined with '[]'.
+ * Splits a path string on wildcard segments ('.[].', '.[1:3].', '.[?type=="fx"].'),
+ * processes each segment in between with toPath and combineEmpty, and keeps the wildcards as keys.
+ * A '**' segment (recursive descent) is a regular toPath key and is kept as is.
+ * @param value The input path string (e.g., 'a.[].b.[].c', 'a.[?type=="fx"].rate' or '**.formula').
+ * @param options Set strict to reject malformed paths ('a[0', 'a[0]b', 'a.[]b') instead of guessing.
+ * @returns Array of strings with segments processed by toPath and combineEmpty, and wildcard segments as is.
+ * @throws PathSyntaxError in strict mode, for paths outside the grammar above.
  */
-function superToPath(value: string | string[]): string[] {
+function superToPath(value: string | string[], options: ToPathOptions = {}): string[] {
   // Handle array input by passing to toPath and combineEmpty
   if (Array.isArray(value)) {
     return combineEmpty(toPath(value));
   }
 
-  // Handle null or undefined
-  if (value == null) {
+  // Handle null, undefined or empty string
+  if (value == null || value === '') {
     return [];
   }
+  if (options.strict) {
+    validatePath(value);
+  }
 
-  // Split on '.[].' delimiter
-  const segments = value.split('.[].');
   const result: string[] = [];
+  // Process a segment between wildcards with toPath and combineEmpty, empty segment is treated as [""]
+  const pushSegment = (segment: string) => {
+    result.push(...combineEmpty(segment ? toPath(segment) : ['']));
+  };
 
-  // Process each segment with toPath and combineEmpty, concatenate with '[]'
-  segments.forEach((segment, index) => {
-    if (segment) {
-      // Process non-empty segment with toPath and combineEmpty
-      result.push(...combineEmpty(toPath(segment)));
-    } else {
-      // Empty segment, treat as [""]
-      result.push(...combineEmpty(['']));
+  let segmentStart = 0;
+  let index = 0;
+  while (index < value.length) {
+    if (value[index] !== '[') {
+      index++;
+      continue;
+    }
+    const close = findClosingBracket(value, index);
+    if (close === -1) {
+      index++;
+      continue;
+    }
+    // A wildcard starts the path or follows a '.', and is followed by a '.' or ends the path.
+    // Other brackets are skipped as a whole, so quoted keys such as '["a.[].b"]' are not split.
+    if (
+      (index !== segmentStart && value[index - 1] !== '.') ||
+      (close + 1 < value.length && value[close + 1] !== '.') ||
+      !isWildcardSpec(value.slice(index + 1, close))
+    ) {
+      index = close + 1;
+      continue;
+    }
+
+    // Text before the wildcard (without its trailing '.') is a regular segment
+    if (index > segmentStart) {
+      pushSegment(value.slice(segmentStart, index - 1));
     }
-    // Add '[]' after each segment except the last
-    if (index < segments.length - 1) {
-      result.push('[]');
+    result.push(value.slice(index, close + 1));
+
+    if (close + 1 === value.length) {
+      return result;
     }
-  });
+    // Skip the '.' after the wildcard, whatever follows (even nothing) is the next segment
+    segmentStart = close + 2;
+    index = segmentStart;
+  }
 
+  pushSegment(value.slice(segmentStart));
   return result;
 }
 
+/**
+ * Same as superToPath, but string paths are parsed once and kept in a bounded LRU cache.
+ * The returned array is shared between calls and must not be modified.
+ * @param value The input path string or array of keys.
+ * @returns Array of keys, see superToPath.
+ */
+function cachedToPath(value: string | string[]): string[] {
+  if (typeof value !== 'string') {
+    return superToPath(value);
+  }
+  let keys = pathCache.get(value);
+  if (!keys) {
+    keys = superToPath(value);
+    pathCache.set(value, keys);
+  }
+  return keys;
+}
+
+// Checks a path against the grammar above, throwing at the first character that does not fit
+function validatePath(value: string): void {
+  const fail = (position: number, reason: string): never => {
+    throw new PathSyntaxError(value, position, reason);
+  };
+  const closeAt = (start: number) => {
+    const close = findClosingBracket(value, start);
+    return close === -1 ? fail(start, "unclosed '['") : close;
+  };
+
+  let index = 0;
+  while (index <= value.length) {
+    // Start of a segment
+    if (value[index] === '[') {
+      const close = closeAt(index);
+      const content = value.slice(index + 1, close);
+      if (isWildcardSpec(content) && (close + 1 === value.length || value[close + 1] === '.')) {
+        try {
+          // Compiles slices and predicates, which throws on invalid ones
+          matchWildcard([], value.slice(index, close + 1));
+        } catch (error) {
+          fail(index, error instanceof Error ? error.message : String(error));
+        }
+        index = close + 1;
+      }
+    } else {
+      while (index < value.length && !'.[]'.includes(value[index])) {
+        index++;
+      }
+    }
+
+    // Index and quoted key brackets
+    while (value[index] === '[') {
+      const close = closeAt(index);
+      const content = value.slice(index + 1, close);
+      if (isWildcardSpec(content)) {
+        fail(index, `wildcard '[${content}]' must be a whole segment`);
+      }
+      if (!/^-?\d+$/.test(content) && !/^(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')$/.test(content)) {
+        fail(index + 1, `invalid bracket content '${content}'`);
+      }
+      index = close + 1;
+    }
+
+    if (index === value.length) {
+      return;
+    }
+    if (value[index] !== '.') {
+      fail(index, value[index] === ']' ? "unexpected ']'" : "expected '.' or '['");
+    }
+    index++;
+  }
+}
+
+// Finds the ']' matching the '[' at start, ignoring brackets inside quoted strings
+function findClosingBracket(value: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export type { ToPathOptions };
+export { cachedToPath, PathSyntaxError };
 export default superToPath;
@@ -1,4 +1,4 @@
-import toPath from './toPath';
+import superToPath, { PathSyntaxError } from './toPath';
 import pick from './pick';
 import get from './get';
 
@@ -21,6 +21,34 @@ const testObject = {
   x: 100,
 };
 
+// Object for slices and predicates
+const rates = {
+  quotes: [
+    { type: 'fx', ccy: 'EUR', rate: 1.1 },
+    { type: 'ir', ccy: 'USD', rate: 0.05 },
+    { type: 'fx', ccy: 'GBP', rate: 1.3 },
+    { type: 'fx', ccy: 'JPY', rate: 0.007 },
+  ],
+};
+
+// Workbook-like object with cells nested at uneven depths
+const workbook = {
+  name: 'book',
+  sheets: [
+    {
+      name: 'Data',
+      rows: [
+        { cells: [{ value: 1 }, { formula: 'A1*2', value: 2 }] },
+        { cells: [{ formula: 'SUM(A1:B1)', value: 3 }] },
+      ],
+    },
+    {
+      name: 'Summary',
+      total: { formula: 'Data!B2', value: 3 },
+    },
+  ],
+};
+
 // Object with missing values
 const objectWithMissing = {
   a: [
@@ -45,7 +73,7 @@ describe('toPath', () => {
   test('should handle complex segments with bracket notation', () => {
     expect(superToPath('a.b[0].[].c')).toEqual(['a', 'b', '0', '[]', 'c']);
     expect(superToPath('a["b.c"].[].d')).toEqual(['a', 'b.c', '[]', 'd']);
-    expect(superToPath('a.["b"].[].["c"]')).toEqual(['a', '[]', 'b', '[]', 'c']);
+    expect(superToPath('a.["b"].[].["c"]')).toEqual(['a', 'b', '[]', 'c']);
   });
 
   test('should handle array input', () => {
@@ -77,14 +105,67 @@ describe('toPath', () => {
   });
 
   test('should handle segments with empty strings via combineEmpty', () => {
-    expect(superToPath('a..[].c')).toEqual(['a', '..c', '[]', 'c']);
-    expect(superToPath('a..c.[].d')).toEqual(['a', '..c', '[]', 'd']);
-    expect(superToPath('..[].c')).toEqual(['.c', '[]', 'c']);
+    expect(superToPath('a..[].c')).toEqual(['a', '.', '[]', 'c']);
+    expect(superToPath('a..c.[].d')).toEqual(['a', '.c', '[]', 'd']);
+    expect(superToPath('..[].c')).toEqual(['..', '[]', 'c']);
+  });
+
+  test('should keep slice and predicate wildcards as segments', () => {
+    expect(superToPath('a.[1:3].b')).toEqual(['a', '[1:3]', 'b']);
+    expect(superToPath('a.[-2:].b.[:1].c')).toEqual(['a', '[-2:]', 'b', '[:1]', 'c']);
+    expect(superToPath('a.[?type=="fx"].rate')).toEqual(['a', '[?type=="fx"]', 'rate']);
+    expect(superToPath('a.[?name=="x.]y" && n>1.5].b')).toEqual(['a', '[?name=="x.]y" && n>1.5]', 'b']);
+    expect(superToPath('a.[1:]')).toEqual(['a', '[1:]']);
+  });
+
+  test('should keep recursive descent as a segment', () => {
+    expect(superToPath('**.formula')).toEqual(['**', 'formula']);
+    expect(superToPath('a.**.[].b')).toEqual(['a', '**', '[]', 'b']);
+  });
+
+  test('should not treat index brackets as wildcards', () => {
+    expect(superToPath('a.b[0].[1:2].c')).toEqual(['a', 'b', '0', '[1:2]', 'c']);
+    expect(superToPath('a[1:2].b')).toEqual(['a', '1:2', 'b']);
   });
 
   test('should handle complex quoted paths with empty segments', () => {
-    expect(superToPath('a.[""].[].["c"]')).toEqual(['a', '[]', 'c']);
-    expect(superToPath('a.[""].[].b.[""]')).toEqual(['a', '[]', 'b', '.']);
+    expect(superToPath('a.[""].[].["c"]')).toEqual(['a', '.', '[]', 'c']);
+    expect(superToPath('a.[""].[].b.[""]')).toEqual(['a', '.', '[]', 'b', '.']);
+  });
+
+  test('should not split quoted keys that contain wildcards', () => {
+    expect(superToPath('a["x.[].y"].b')).toEqual(['a', 'x.[].y', 'b']);
+    expect(superToPath('a.["[1:2]"].[]')).toEqual(['a', '[1:2]', '[]']);
+  });
+
+  test('should accept well-formed paths in strict mode', () => {
+    expect(superToPath('a.b[0]["c.d"].[].e', { strict: true })).toEqual(['a', 'b', '0', 'c.d', '[]', 'e']);
+    expect(superToPath('a..b.[?x=="]"].**', { strict: true })).toEqual(['a', '.b', '[?x=="]"]', '**']);
+    expect(superToPath('[0][-1]', { strict: true })).toEqual(['0', '-1']);
+  });
+
+  test('should report the position of malformed paths in strict mode', () => {
+    const position = (path: string) => {
+      try {
+        superToPath(path, { strict: true });
+      } catch (error) {
+        expect(error).toBeInstanceOf(PathSyntaxError);
+        return (error as PathSyntaxError).position;
+      }
+      return -1;
+    };
+    expect(position('a[0')).toBe(1);
+    expect(position('a["b]')).toBe(1);
+    expect(position('a[0]b')).toBe(4);
+    expect(position('a]b')).toBe(1);
+    expect(position('a.[]b')).toBe(2);
+    expect(position('a[1:2]')).toBe(1);
+    expect(position('a[b]')).toBe(2);
+    expect(position('a.[?x==]')).toBe(2);
+    expect(position('a.[::0]')).toBe(2);
+    expect(() => superToPath('a[0]b', { strict: true })).toThrow(
+      "Invalid path at position 4: expected '.' or '[' in 'a[0]b'"
+    );
   });
 });
 
@@ -134,12 +215,61 @@ describe('pick', () => {
   });
 
   test('should return empty object for invalid path', () => {
+    // @ts-expect-error the path does not exist on the object type
     expect(pick(testObject, 'z.y')).toEqual({});
   });
 
   test('should handle non-array at wildcard position', () => {
+    // @ts-expect-error the path does not exist on the object type
     expect(pick({ a: { b: { c: 1 } } }, 'a.[].b.c')).toEqual({});
   });
+
+  test('should return an array for a root array', () => {
+    const rows = [{ a: 1, b: 2 }, { a: 3 }, { b: 4 }];
+    const picked = pick(rows, ['[].a']);
+    expect(Array.isArray(picked)).toBe(true);
+    expect(picked).toEqual([{ a: 1 }, { a: 3 }]);
+  });
+
+  test('should keep only elements matched by a slice', () => {
+    expect(pick(rates, 'quotes.[1:3].ccy')).toEqual({ quotes: [{ ccy: 'USD' }, { ccy: 'GBP' }] });
+    expect(pick(rates, 'quotes.[-1:].ccy')).toEqual({ quotes: [{ ccy: 'JPY' }] });
+  });
+
+  test('should keep only elements matched by a predicate', () => {
+    expect(pick(rates, 'quotes.[?type=="fx" && rate>1].ccy')).toEqual({
+      quotes: [{ ccy: 'EUR' }, { ccy: 'GBP' }],
+    });
+  });
+
+  test('should keep branches matched by recursive descent in their original shape', () => {
+    expect(pick(workbook, '**.formula')).toEqual({
+      sheets: [
+        { rows: [{ cells: [{ formula: 'A1*2' }] }, { cells: [{ formula: 'SUM(A1:B1)' }] }] },
+        { total: { formula: 'Data!B2' } },
+      ],
+    });
+  });
+
+  test('should combine recursive descent with other keys and wildcards', () => {
+    expect(pick(workbook, 'sheets.[0:1].**.cells.[?formula].value')).toEqual({
+      sheets: [{ rows: [{ cells: [{ value: 2 }] }, { cells: [{ value: 3 }] }] }],
+    });
+    expect(pick(workbook, 'sheets.[1:].**')).toEqual({ sheets: [workbook.sheets[1]] });
+  });
+
+  test('should merge matches found at different depths', () => {
+    const tree = { a: { b: 1, x: { a: { b: 2 } } }, list: [{ a: { b: 3 } }, { c: 4 }, { a: { b: 5, c: 6 } }] };
+    expect(pick(tree, '**.a.b')).toEqual({
+      a: { b: 1, x: { a: { b: 2 } } },
+      list: [{ a: { b: 3 } }, { a: { b: 5 } }],
+    });
+    expect(tree.a).toEqual({ b: 1, x: { a: { b: 2 } } });
+  });
+
+  test('should keep matched elements for a trailing wildcard', () => {
+    expect(pick(rates, 'quotes.[?ccy=="USD"]')).toEqual({ quotes: [rates.quotes[1]] });
+  });
 });
 
 describe('get', () => {
@@ -153,11 +283,14 @@ describe('get', () => {
   });
 
   test('should handle nested wildcard path', () => {
-    expect(get(testObject, 'a.[].b.[].c')).toEqual([[42, 43], [99, 100]]);
+    expect(get(testObject, 'a.[].b.[].c')).toEqual([
+      [[42], [43]],
+      [[99], [100]],
+    ]);
   });
 
   test('should handle missing values in wildcard path', () => {
-    expect(get(objectWithMissing, 'a.[].b.[].c')).toEqual([[42], [99]]);
+    expect(get(objectWithMissing, 'a.[].b.[].c')).toEqual([[[42]], [[99]]]);
   });
 
   test('should return defaultValue for null/undefined input', () => {
@@ -166,18 +299,47 @@ describe('get', () => {
   });
 
   test('should return defaultValue for invalid path', () => {
+    // @ts-expect-error the path does not exist on the object type
     expect(get(testObject, 'z.y', 'not found')).toEqual('not found');
   });
 
   test('should return defaultValue for non-array at wildcard position', () => {
+    // @ts-expect-error the path does not exist on the object type
     expect(get({ a: { b: { c: 1 } } }, 'a.[].b.c', 'not found')).toEqual('not found');
   });
 
   test('should return empty array for wildcard path with no valid values', () => {
+    // @ts-expect-error the path does not exist on the object type
     expect(get({ a: [{}] }, 'a.[].b.c')).toEqual([]);
   });
 
   test('should handle array path input', () => {
     expect(get(testObject, ['a', '0', 'b', '0', 'c'])).toEqual(42);
   });
+
+  test('should honor index slices', () => {
+    expect(get(rates, 'quotes.[1:3].ccy')).toEqual([['USD'], ['GBP']]);
+    expect(get(rates, 'quotes.[-2:].ccy')).toEqual([['GBP'], ['JPY']]);
+    expect(get(rates, 'quotes.[::-2].ccy')).toEqual([['JPY'], ['USD']]);
+    expect(get(rates, 'quotes.[10:].ccy', 'not found')).toEqual('not found');
+  });
+
+  test('should honor predicates', () => {
+    expect(get(rates, 'quotes.[?type=="fx"].rate')).toEqual([[1.1], [1.3], [0.007]]);
+    expect(get(rates, "quotes.[?type=='fx' && rate<1].ccy")).toEqual([['JPY']]);
+    expect(get(rates, 'quotes.[?ccy!="EUR" && (rate>1 || type=="ir")].ccy')).toEqual([['USD'], ['GBP']]);
+  });
+
+  test('should return values at any depth for recursive descent', () => {
+    expect(get(workbook, '**.formula')).toEqual(['A1*2', 'SUM(A1:B1)', 'Data!B2']);
+    expect(get(workbook, 'sheets.**.name')).toEqual(['Data', 'Summary']);
+    expect(get(workbook, '**.cells.[?formula].value')).toEqual([[2], [3]]);
+    expect(get(workbook, '**.missing', 'not found')).toEqual('not found');
+  });
+
+  test('should return matched elements for a trailing wildcard', () => {
+    expect(get(rates, 'quotes.[?rate>=1.3]')).toEqual([rates.quotes[2]]);
+    expect(get({ a: [1, 2, 3] }, 'a.[1:]')).toEqual([2, 3]);
+    expect(get({ a: [1, 5, 10] }, 'a.[?@>2]')).toEqual([5, 10]);
+  });
 });
@@ -0,0 +1,131 @@
+import pick from './pick';
+import get from './get';
+import type { Descent, ParsePath, Wildcard } from './pathTypes';
+
+// Compile-time assertions: a failing expectation is a type error, the test bodies only exercise the calls
+type Equal<X, Y> = (<G>() => G extends X ? 1 : 2) extends (<G>() => G extends Y ? 1 : 2) ? true : false;
+const expectType = <T extends true>() => undefined as unknown as T;
+
+interface Quote {
+  type: 'fx' | 'ir';
+  ccy: string;
+  rate?: number;
+}
+
+interface Book {
+  name: string;
+  sheets: Array<{
+    title: string;
+    rows: Array<{ cells: Array<{ value: number; formula?: string }> }>;
+  }>;
+  quotes: Quote[];
+  meta: { 'b.c': boolean; '.hidden': string; tags: string[] };
+}
+
+const book: Book = {
+  name: 'book',
+  sheets: [{ title: 'Data', rows: [{ cells: [{ value: 1 }, { value: 2, formula: 'A1*2' }] }] }],
+  quotes: [{ type: 'fx', ccy: 'EUR', rate: 1.1 }],
+  meta: { 'b.c': true, '.hidden': 'x', tags: ['a'] },
+};
+
+describe('ParsePath', () => {
+  test('should parse keys, indexes and quoted keys', () => {
+    expectType<Equal<ParsePath<'a.b.c'>, ['a', 'b', 'c']>>();
+    expectType<Equal<ParsePath<'a.b[0].c'>, ['a', 'b', '0', 'c']>>();
+    expectType<Equal<ParsePath<'a["b.c"].d'>, ['a', 'b.c', 'd']>>();
+    expectType<Equal<ParsePath<"a['b'][1]">, ['a', 'b', '1']>>();
+    expectType<Equal<ParsePath<''>, []>>();
+  });
+
+  test('should parse wildcards, slices, predicates and recursive descent', () => {
+    expectType<Equal<ParsePath<'a.[].b.[].c'>, ['a', Wildcard, 'b', Wildcard, 'c']>>();
+    expectType<Equal<ParsePath<'a.[1:3].b.[-2:]'>, ['a', Wildcard, 'b', Wildcard]>>();
+    expectType<Equal<ParsePath<'a.[?type=="fx" && rate>1].b'>, ['a', Wildcard, 'b']>>();
+    expectType<Equal<ParsePath<'**.formula'>, [Descent, 'formula']>>();
+    expectType<Equal<ParsePath<'a.[].[].c'>, ['a', Wildcard, Wildcard, 'c']>>();
+  });
+
+  test('should combine empty segments like combineEmpty', () => {
+    expectType<Equal<ParsePath<'a..b'>, ['a', '.b']>>();
+    expectType<Equal<ParsePath<'a.'>, ['a', '.']>>();
+    expectType<Equal<ParsePath<'.[].a'>, ['.', Wildcard, 'a']>>();
+  });
+
+  test('should reject malformed paths', () => {
+    expectType<Equal<ParsePath<'a[0'>, never>>();
+    expectType<Equal<ParsePath<'a[0]b'>, never>>();
+    expectType<Equal<ParsePath<'a]b'>, never>>();
+    expectType<Equal<ParsePath<'a.[]b'>, never>>();
+  });
+});
+
+describe('get types', () => {
+  test('should infer the value type for standard paths', () => {
+    const name = get(book, 'name');
+    expectType<Equal<typeof name, string | undefined>>();
+    const value = get(book, 'sheets[0].rows[0].cells[1].value', 0);
+    expectType<Equal<typeof value, number>>();
+    const quoted = get(book, 'meta["b.c"]');
+    expectType<Equal<typeof quoted, boolean | undefined>>();
+    const dotted = get(book, 'meta..hidden');
+    expectType<Equal<typeof dotted, string | undefined>>();
+    expect(dotted).toBe('x');
+  });
+
+  test('should infer nested arrays for wildcard paths', () => {
+    const rates = get(book, 'quotes.[?type=="fx"].rate');
+    expectType<Equal<typeof rates, Array<Array<number | undefined>>>>();
+    const cells = get(book, 'sheets.[].rows.[].cells.[1:]');
+    expectType<Equal<typeof cells, Array<Array<Array<{ value: number; formula?: string }>>>>>();
+    const formulas = get(book, '**.formula');
+    expectType<Equal<typeof formulas, any[]>>();
+    expect(cells).toEqual([[[{ value: 2, formula: 'A1*2' }]]]);
+  });
+
+  test('should reject paths that do not exist on the object type', () => {
+    // @ts-expect-error unknown key
+    get(book, 'nam');
+    // @ts-expect-error wildcard on a non-array
+    get(book, 'meta.[].x');
+    // @ts-expect-error unknown key below a wildcard
+    get(book, 'quotes.[].price');
+    // @ts-expect-error malformed path
+    get(book, 'quotes[0');
+  });
+
+  test('should fall back to any for dynamic paths and loose objects', () => {
+    const path: string = 'name';
+    const dynamic = get(book, path);
+    expectType<Equal<typeof dynamic, any>>();
+    const loose = get(null, 'a.b', 'not found');
+    expectType<Equal<typeof loose, any>>();
+    const keys = get(book, ['name']);
+    expectType<Equal<typeof keys, any>>();
+  });
+});
+
+describe('pick types', () => {
+  test('should infer the leaf key for standard paths', () => {
+    const result = pick(book, 'sheets[0].title');
+    expectType<Equal<typeof result, { title: string }>>();
+  });
+
+  test('should infer the projected shape for wildcard paths', () => {
+    const result = pick(book, 'sheets.[].rows.[].cells.[].value');
+    expectType<Equal<typeof result, { sheets: Array<{ rows: Array<{ cells: Array<{ value: number }> }> }> }>>();
+    expect(result).toEqual({ sheets: [{ rows: [{ cells: [{ value: 1 }, { value: 2 }] }] }] });
+  });
+
+  test('should merge the shapes of several paths', () => {
+    const result = pick(book, ['name', 'quotes.[].ccy', 'meta.tags']);
+    expectType<Equal<typeof result, { name: string; quotes: Array<{ ccy: string }>; tags: string[] }>>();
+  });
+
+  test('should reject paths that do not exist on the object type', () => {
+    // @ts-expect-error unknown key
+    pick(book, 'sheets.[].name');
+    // @ts-expect-error one invalid path in the list
+    pick(book, ['name', 'z.y']);
+  });
+});
@@ -0,0 +1,60 @@
+import { trimMatrix } from './trimMatrix';
+
+describe('trimMatrix', () => {
+  const input = [
+    ['Report', null, null],
+    [],
+    [null, 'a', 'b', '', ' '],
+    [null, 'c', null],
+    [null, null, null, null, null, null],
+  ];
+
+  test('should trim every side and return the offset', () => {
+    expect(trimMatrix(input)).toEqual({
+      matrix: [['Report', null, null], [], [null, 'a', 'b'], [null, 'c', null]],
+      offset: { top: 0, left: 0, bottom: 1, right: 3 },
+    });
+  });
+
+  test('should map trimmed indices back to the input', () => {
+    const { matrix, offset } = trimMatrix(input.slice(1));
+    expect(matrix).toEqual([['a', 'b'], ['c', null]]);
+    expect(offset).toEqual({ top: 1, left: 1, bottom: 1, right: 3 });
+    expect(input.slice(1)[1 + offset.top][0 + offset.left]).toBe(matrix[1][0]);
+  });
+
+  test('should only trim the selected sides', () => {
+    const { matrix, offset } = trimMatrix(input.slice(1), { top: false, left: false });
+    expect(matrix).toEqual([[], [null, 'a', 'b'], [null, 'c', null]]);
+    expect(offset).toEqual({ top: 0, left: 0, bottom: 1, right: 3 });
+  });
+
+  test('should pad ragged rows when normalizing', () => {
+    expect(trimMatrix([[1], [], [2, 3]], { normalize: true }).matrix).toEqual([
+      [1, null],
+      [null, null],
+      [2, 3],
+    ]);
+    expect(trimMatrix([[1], [2, 3]], { normalize: true, fill: '' as any }).matrix).toEqual([
+      [1, ''],
+      [2, 3],
+    ]);
+  });
+
+  test('should use the emptiness predicate', () => {
+    const isEmpty = (value: any) => value == null || value === 0 || value === false;
+    expect(trimMatrix([[0, 0], [false, 5], [0, 0]], { isEmpty })).toEqual({
+      matrix: [[5]],
+      offset: { top: 1, left: 1, bottom: 1, right: 0 },
+    });
+  });
+
+  test('should handle empty matrices', () => {
+    expect(trimMatrix([])).toEqual({ matrix: [], offset: { top: 0, left: 0, bottom: 0, right: 0 } });
+    expect(trimMatrix([[null, ''], [' ']])).toEqual({ matrix: [], offset: { top: 2, left: 2, bottom: 0, right: 0 } });
+    expect(trimMatrix([[null], [null]], { top: false })).toEqual({
+      matrix: [],
+      offset: { top: 0, left: 1, bottom: 2, right: 0 },
+    });
+  });
+});
@@ -0,0 +1,78 @@
+export interface TrimOptions<T> {
+  // Sides to trim, all of them by default
+  top?: boolean;
+  bottom?: boolean;
+  left?: boolean;
+  right?: boolean;
+  // Decides which cells are empty (default: null, undefined and whitespace-only strings),
+  // e.g. to treat 0, false or styled cells without a value as empty. Indices are those of the input matrix.
+  isEmpty?: (value: T, row: number, column: number) => boolean;
+  // Pad ragged rows so that every row has the trimmed width
+  normalize?: boolean;
+  // Value used for padding when normalize is set (default null)
+  fill?: T;
+}
+
+// Number of rows or columns removed from each side
+export interface TrimOffset {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface TrimResult<T> {
+  matrix: T[][];
+  // matrix[r][c] was matrix[r + offset.top][c + offset.left] in the input
+  offset: TrimOffset;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+export function trimMatrix<T>(matrix: T[][], options: TrimOptions<T> = {}): TrimResult<T> {
+  const { top = true, bottom = true, left = true, right = true, isEmpty = isEmptyValue, normalize = false } = options;
+  const rows = Array.isArray(matrix) ? matrix : [];
+  const width = rows.reduce((max, row) => Math.max(max, Array.isArray(row) ? row.length : 0), 0);
+
+  // Bounding box of the non-empty cells
+  let firstRow = rows.length;
+  let lastRow = -1;
+  let firstColumn = width;
+  let lastColumn = -1;
+  rows.forEach((row, r) => {
+    (Array.isArray(row) ? row : []).forEach((value, c) => {
+      if (isEmpty(value, r, c)) return;
+      firstRow = Math.min(firstRow, r);
+      lastRow = Math.max(lastRow, r);
+      firstColumn = Math.min(firstColumn, c);
+      lastColumn = Math.max(lastColumn, c);
+    });
+  });
+
+  // Sides that are not trimmed keep their bound, an all-empty matrix is removed by the trimmed sides only
+  const startRow = top ? firstRow : 0;
+  const endRow = bottom ? Math.max(lastRow, startRow - 1) : rows.length - 1;
+  const startColumn = left ? firstColumn : 0;
+  const endColumn = right ? Math.max(lastColumn, startColumn - 1) : width - 1;
+
+  const trimmedWidth = endColumn - startColumn + 1;
+  const fill = options.fill === undefined ? (null as T) : options.fill;
+  const result = rows.slice(startRow, endRow + 1).map((row) => {
+    const cells = (Array.isArray(row) ? row : []).slice(startColumn, endColumn + 1);
+    return normalize && cells.length < trimmedWidth
+      ? cells.concat(Array.from({ length: trimmedWidth - cells.length }, () => fill))
+      : cells;
+  });
+
+  return {
+    matrix: result,
+    offset: {
+      top: startRow,
+      left: startColumn,
+      bottom: rows.length - 1 - endRow,
+      right: width - 1 - endColumn,
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { isWildcard, matchWildcard } from './wildcard';
+
+describe('isWildcard', () => {
+  test('should recognize wildcard segments', () => {
+    expect(isWildcard('[]')).toBe(true);
+    expect(isWildcard('[1:3]')).toBe(true);
+    expect(isWildcard('[-2:]')).toBe(true);
+    expect(isWildcard('[::2]')).toBe(true);
+    expect(isWildcard('[?a==1]')).toBe(true);
+  });
+
+  test('should reject regular keys', () => {
+    expect(isWildcard('a')).toBe(false);
+    expect(isWildcard('[0]')).toBe(false);
+    expect(isWildcard('["b"]')).toBe(false);
+    expect(isWildcard('')).toBe(false);
+  });
+});
+
+describe('matchWildcard', () => {
+  const items = [
+    { id: 1, type: 'fx', tags: { live: true } },
+    { id: 2, type: 'ir', tags: { live: false } },
+    { id: 3, type: 'fx', tags: { live: false } },
+    { id: 4, type: null },
+  ];
+
+  test('should match every element for bare wildcard', () => {
+    expect(matchWildcard(items, '[]')).toEqual([0, 1, 2, 3]);
+  });
+
+  test('should match slices with negative and omitted bounds', () => {
+    expect(matchWildcard(items, '[1:3]')).toEqual([1, 2]);
+    expect(matchWildcard(items, '[-1:]')).toEqual([3]);
+    expect(matchWildcard(items, '[:-2]')).toEqual([0, 1]);
+    expect(matchWildcard(items, '[::2]')).toEqual([0, 2]);
+    expect(matchWildcard(items, '[::-1]')).toEqual([3, 2, 1, 0]);
+    expect(matchWildcard(items, '[-10:10]')).toEqual([0, 1, 2, 3]);
+  });
+
+  test('should match predicates', () => {
+    expect(matchWildcard(items, '[?type=="fx"]')).toEqual([0, 2]);
+    expect(matchWildcard(items, '[?type==null]')).toEqual([3]);
+    expect(matchWildcard(items, '[?tags.live]')).toEqual([0]);
+    expect(matchWildcard(items, '[?!tags.live && id>=2]')).toEqual([1, 2, 3]);
+    expect(matchWildcard(items, '[?id<2 || id>3]')).toEqual([0, 3]);
+  });
+
+  test('should not order values of different types', () => {
+    expect(matchWildcard([{ v: '10' }, { v: 10 }], '[?v>5]')).toEqual([1]);
+  });
+
+  test('should return no matches for non-arrays', () => {
+    expect(matchWildcard({} as any, '[]')).toEqual([]);
+  });
+
+  test('should throw on malformed predicates and zero steps', () => {
+    expect(() => matchWildcard(items, '[?type==]')).toThrow('Invalid predicate');
+    expect(() => matchWildcard(items, '[?(id>1]')).toThrow('missing closing parenthesis');
+    expect(() => matchWildcard(items, '[::0]')).toThrow('Slice step cannot be zero');
+  });
+});
@@ -0,0 +1,284 @@
+import { get as lodashGet, isPlainObject } from 'lodash';
+import LRUCache from './lruCache';
+
+type Predicate = (item: any) => boolean;
+
+interface Slice {
+  start?: number;
+  end?: number;
+  step: number;
+}
+
+// Segment matching zero or more levels of nesting, e.g. '**.formula'
+const RECURSIVE_DESCENT = '**';
+
+const SLICE_REGEX = /^\s*(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(-?\d+)?\s*)?$/;
+
+// Parsed predicates and slices are cached, the same path segments show up on every call
+const SELECTOR_CACHE_SIZE = 1000;
+const compiled = new LRUCache<string, Predicate | Slice>(SELECTOR_CACHE_SIZE);
+
+/**
+ * Checks whether the content between brackets (without the brackets) is a wildcard selector:
+ * empty (every element), a slice such as '1:3' or '-2:', or a predicate starting with '?'.
+ * @param content The text between '[' and ']'.
+ * @returns True when superToPath should keep the segment as a wildcard.
+ */
+function isWildcardSpec(content: string): boolean {
+  return content === '' || content.startsWith('?') || SLICE_REGEX.test(content);
+}
+
+/**
+ * Checks whether a key produced by superToPath is a wildcard segment ('[]', '[1:3]', '[?a==1]').
+ * @param key A single path key.
+ * @returns True for wildcard segments.
+ */
+function isWildcard(key: string): boolean {
+  return (
+    typeof key === 'string' &&
+    key.length >= 2 &&
+    key[0] === '[' &&
+    key[key.length - 1] === ']' &&
+    isWildcardSpec(key.slice(1, -1))
+  );
+}
+
+/**
+ * Checks whether parsed keys need the wildcard code path (any wildcard or '**' segment).
+ * @param keys Keys produced by superToPath.
+ * @returns True when at least one key fans out.
+ */
+function hasWildcard(keys: string[]): boolean {
+  return keys.some((key) => key === RECURSIVE_DESCENT || isWildcard(key));
+}
+
+/**
+ * Lists the direct children visited by '**': elements of arrays and own properties of plain objects.
+ * Other values (primitives, dates, class instances) are leaves. Data is expected to be tree-shaped (JSON).
+ * @param value The node to expand.
+ * @returns Array of [key, child] pairs, with numeric keys for arrays.
+ */
+function childEntries(value: any): Array<[string | number, any]> {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [index, item]);
+  }
+  return isPlainObject(value) ? Object.entries(value) : [];
+}
+
+/**
+ * Resolves a wildcard segment against an array.
+ * @param array The array found at the wildcard position.
+ * @param key The wildcard segment.
+ * @returns Indices of the matched elements in ascending order (or slice order for negative steps).
+ */
+function matchWildcard(array: any[], key: string): number[] {
+  if (!Array.isArray(array)) {
+    return [];
+  }
+  if (key === '[]') {
+    return array.map((_item, index) => index);
+  }
+
+  const selector = compile(key.slice(1, -1));
+  if (typeof selector === 'function') {
+    const indices: number[] = [];
+    array.forEach((item, index) => {
+      if (selector(item)) {
+        indices.push(index);
+      }
+    });
+    return indices;
+  }
+  return sliceIndices(array.length, selector);
+}
+
+function compile(content: string): Predicate | Slice {
+  let selector = compiled.get(content);
+  if (!selector) {
+    selector = content.startsWith('?') ? compilePredicate(content.slice(1)) : parseSlice(content);
+    compiled.set(content, selector);
+  }
+  return selector;
+}
+
+function parseSlice(content: string): Slice {
+  const [, start, end, step] = SLICE_REGEX.exec(content) as RegExpExecArray;
+  const slice: Slice = {
+    start: start !== undefined ? Number(start) : undefined,
+    end: end !== undefined ? Number(end) : undefined,
+    step: step !== undefined ? Number(step) : 1,
+  };
+  if (slice.step === 0) {
+    throw new Error(`Slice step cannot be zero: [${content}]`);
+  }
+  return slice;
+}
+
+// Python-style slice bounds: negative indices count from the end, out of range bounds are clamped
+function sliceIndices(length: number, { start, end, step }: Slice): number[] {
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+  const normalize = (value: number) => (value < 0 ? value + length : value);
+  const indices: number[] = [];
+
+  if (step > 0) {
+    const from = start === undefined ? 0 : clamp(normalize(start), 0, length);
+    const to = end === undefined ? length : clamp(normalize(end), 0, length);
+    for (let i = from; i < to; i += step) {
+      indices.push(i);
+    }
+  } else {
+    const from = start === undefined ? length - 1 : clamp(normalize(start), -1, length - 1);
+    const to = end === undefined ? -1 : clamp(normalize(end), -1, length - 1);
+    for (let i = from; i > to; i += step) {
+      indices.push(i);
+    }
+  }
+  return indices;
+}
+
+/*
+ * Predicate grammar (the part after '?'):
+ *   expression := and ('||' and)*
+ *   and        := unary ('&&' unary)*
+ *   unary      := '!' unary | '(' expression ')' | comparison
+ *   comparison := operand (('==' | '!=' | '<' | '<=' | '>' | '>=') operand)?
+ *   operand    := string | number | true | false | null | path
+ * Strings use single or double quotes. A path is resolved against the element,
+ * '@' refers to the element itself (e.g. [?@>10] on an array of numbers).
+ */
+type Token = { type: 'op' | 'value' | 'path'; value: any };
+
+const TOKEN_REGEX =
+  /\s*(?:(&&|\|\||==|!=|<=|>=|<|>|!|\(|\))|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)(?![\w$])|([^\s&|=!<>()]+))/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_REGEX.lastIndex = 0;
+  while (TOKEN_REGEX.lastIndex < source.length) {
+    if (source.slice(TOKEN_REGEX.lastIndex).trim() === '') {
+      break;
+    }
+    const position = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(source);
+    if (!match) {
+      throw new Error(`Invalid predicate at position ${position}: ${source}`);
+    }
+    const [, op, doubleQuoted, singleQuoted, number, word] = match;
+    if (op !== undefined) {
+      tokens.push({ type: 'op', value: op });
+    } else if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      tokens.push({ type: 'value', value: (doubleQuoted ?? singleQuoted).replace(/\\(.)/g, '$1') });
+    } else if (number !== undefined) {
+      tokens.push({ type: 'value', value: Number(number) });
+    } else if (word === 'true' || word === 'false' || word === 'null') {
+      tokens.push({ type: 'value', value: JSON.parse(word) });
+    } else {
+      tokens.push({ type: 'path', value: word });
+    }
+  }
+  return tokens;
+}
+
+function compilePredicate(source: string): Predicate {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid predicate [?${source}]: ${message}`);
+  };
+
+  const parseExpression = (): Predicate => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      position++;
+      const l = left;
+      const r = parseAnd();
+      left = (item) => l(item) || r(item);
+    }
+    return left;
+  };
+
+  const parseAnd = (): Predicate => {
+    let left = parseUnary();
+    while (isOp('&&')) {
+      position++;
+      const l = left;
+      const r = parseUnary();
+      left = (item) => l(item) && r(item);
+    }
+    return left;
+  };
+
+  const parseUnary = (): Predicate => {
+    if (isOp('!')) {
+      position++;
+      const operand = parseUnary();
+      return (item) => !operand(item);
+    }
+    if (isOp('(')) {
+      position++;
+      const inner = parseExpression();
+      if (!isOp(')')) {
+        fail('missing closing parenthesis');
+      }
+      position++;
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseOperand = (): ((item: any) => any) => {
+    const token = peek();
+    if (!token || token.type === 'op') {
+      return fail(token ? `unexpected '${token.value}'` : 'unexpected end');
+    }
+    position++;
+    if (token.type === 'value') {
+      return () => token.value;
+    }
+    if (token.value === '@') {
+      return (item) => item;
+    }
+    const path = token.value.startsWith('@.') ? token.value.slice(2) : token.value;
+    return (item) => (item != null ? lodashGet(item, path) : undefined);
+  };
+
+  const parseComparison = (): Predicate => {
+    const left = parseOperand();
+    const token = peek();
+    if (!token || token.type !== 'op' || !['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      return (item) => !!left(item);
+    }
+    position++;
+    const right = parseOperand();
+    return (item) => compare(left(item), token.value, right(item));
+  };
+
+  const predicate = parseExpression();
+  if (position < tokens.length) {
+    fail(`unexpected '${peek().value}'`);
+  }
+  return predicate;
+}
+
+function compare(left: any, operator: string, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default:
+      // Ordering only makes sense between two numbers or two strings
+      if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+        return false;
+      }
+      if (operator === '<') return left < right;
+      if (operator === '<=') return left <= right;
+      if (operator === '>') return left > right;
+      return left >= right;
+  }
+}
+
+export { RECURSIVE_DESCENT, childEntries, hasWildcard, isWildcard, isWildcardSpec, matchWildcard };